@@ -1,31 +1,42 @@
 import { ATABootstrapConfig } from "."
+import { createJSDelivrBackend, RegistryBackend } from "./registries"
 
-//  https://github.com/jsdelivr/data.jsdelivr.com
+/** The registry to use from the config, which is jsDelivr unless one was given */
+const getRegistry = (config: ATABootstrapConfig): RegistryBackend =>
+  config.registry || createJSDelivrBackend({ fetcher: config.fetcher })
 
-export const getNPMVersionsForModule = (config: ATABootstrapConfig, moduleName: string) => {
-  const url = `https://data.jsdelivr.com/v1/package/npm/${moduleName}`
-  return api<{ tags: Record<string, string>; versions: string[] }>(config, url, { cache: "no-store" })
+export const getNPMVersionsForModule = async (config: ATABootstrapConfig, moduleName: string, signal?: AbortSignal) => {
+  const registry = getRegistry(config)
+  if (!registry.getTags) return new Error("The registry can't list tags")
+
+  const tags = await registry.getTags(moduleName, signal)
+  return tags instanceof Error ? tags : { tags }
 }
 
-export const getNPMVersionForModuleReference = (config: ATABootstrapConfig, moduleName: string, reference: string) => {
-  const url = `https://data.jsdelivr.com/v1/package/resolve/npm/${moduleName}@${reference}`
-  return api<{ version: string | null }>(config, url)
+export const getNPMVersionForModuleReference = async (
+  config: ATABootstrapConfig,
+  moduleName: string,
+  reference: string,
+  signal?: AbortSignal
+) => {
+  const version = await getRegistry(config).resolveVersion(moduleName, reference, signal)
+  return version instanceof Error ? version : { version }
 }
 
-export type NPMTreeMeta = { default: string; files: Array<{ name: string }>; moduleName: string; version: string }
+export type NPMTreeMeta = { files: Array<{ name: string }>; moduleName: string; version: string }
 
 export const getFiletreeForModuleWithVersion = async (
   config: ATABootstrapConfig,
   moduleName: string,
-  version: string
-) => {
-  const url = `https://data.jsdelivr.com/v1/package/npm/${moduleName}@${version}/flat`
-  const res = await api<NPMTreeMeta>(config, url)
+  version: string,
+  signal?: AbortSignal
+): Promise<NPMTreeMeta | Error> => {
+  const res = await getRegistry(config).listFiles(moduleName, version, signal)
   if (res instanceof Error) {
     return res
   } else {
     return {
-      ...res,
+      files: res.map(name => ({ name })),
       moduleName,
       version,
     }
@@ -36,27 +47,14 @@ export const getDTSFileForModuleWithVersion = async (
   config: ATABootstrapConfig,
   moduleName: string,
   version: string,
-  file: string
+  file: string,
+  signal?: AbortSignal
 ) => {
-  // file comes with a prefix / 
-  const url = `https://cdn.jsdelivr.net/npm/${moduleName}@${version}${file}`
-  const f = config.fetcher || fetch
-  const res = await f(url)
-  if (res.ok) {
-    return res.text()
-  } else {
-    return new Error("OK")
-  }
-}
+  // file comes with a prefix /
+  const cached = await config.cache?.getFile(moduleName, version, file)
+  if (cached !== undefined) return cached
 
-function api<T>(config: ATABootstrapConfig, url: string, init?: RequestInit): Promise<T | Error> {
-  const f = config.fetcher || fetch
-
-  return f(url, init).then(res => {
-    if (res.ok) {
-      return res.json().then(f => f as T)
-    } else {
-      return new Error("OK")
-    }
-  })
+  const contents = await getRegistry(config).fetchFile(moduleName, version, file, signal)
+  if (typeof contents === "string") await config.cache?.setFile(moduleName, version, file, contents)
+  return contents
 }
@@ -0,0 +1,208 @@
+/**
+ * Somewhere to keep the files ATA downloads between sessions. Each method can return
+ * a promise, so async stores like IndexedDB work too.
+ */
+export interface ATACacheStore {
+  getItem(key: string): string | null | undefined | Promise<string | null | undefined>
+  setItem(key: string, value: string): void | Promise<void>
+  keys(): string[] | Promise<string[]>
+  removeItem(key: string): void | Promise<void>
+}
+
+export interface ATACacheOptions {
+  /** How long to trust a tag like "latest" pointing at a version for, in milliseconds. Defaults to a day */
+  tagTTL?: number
+}
+
+/** A package in the cache, for showing what's in there */
+export interface ATACacheEntry {
+  moduleName: string
+  version: string
+  /** How many files there are for this version of the package */
+  files: number
+}
+
+/**
+ * Keeps the versions, file lists and .d.ts files which ATA downloads in a store, so that they don't
+ * need downloading again next time. Files are keyed by `module@version/path`, because they never
+ * change for a version - tags like "latest" are the only thing which expires.
+ */
+export interface ATACache {
+  /** The version a tag pointed to, as long as that was looked up less than `tagTTL` ago */
+  getVersionForTag(moduleName: string, tag: string): Promise<string | undefined>
+  setVersionForTag(moduleName: string, tag: string, version: string): Promise<void>
+  getFileTree(moduleName: string, version: string): Promise<string[] | undefined>
+  setFileTree(moduleName: string, version: string, files: string[]): Promise<void>
+  getFile(moduleName: string, version: string, path: string): Promise<string | undefined>
+  setFile(moduleName: string, version: string, path: string, contents: string): Promise<void>
+  /** Lists the versions of packages which have files in the cache */
+  list(): Promise<ATACacheEntry[]>
+  /** Removes everything from the cache */
+  clear(): Promise<void>
+}
+
+const oneDay = 24 * 60 * 60 * 1000
+
+/** Wraps a store with the keys and expiry ATA uses, pass the result to `setupTypeAcquisition` as `cache` */
+export const createATACache = (store: ATACacheStore, options: ATACacheOptions = {}): ATACache => {
+  const tagTTL = options.tagTTL ?? oneDay
+
+  // A store which fails (e.g. IndexedDB in some private browsing modes) shouldn't stop ATA, so errors count as misses
+  const get = async (key: string) => {
+    try {
+      return (await store.getItem(key)) ?? undefined
+    } catch (error) {
+      return undefined
+    }
+  }
+  const getJSON = async <T>(key: string) => {
+    const cached = await get(key)
+    if (!cached) return undefined
+
+    try {
+      return JSON.parse(cached) as T
+    } catch (error) {
+      return undefined
+    }
+  }
+  const keys = async () => {
+    try {
+      return await store.keys()
+    } catch (error) {
+      return []
+    }
+  }
+  const set = async (key: string, value: string) => {
+    try {
+      await store.setItem(key, value)
+    } catch (error) {
+      // A full store shouldn't stop ATA, it just means the file gets downloaded again next time
+    }
+  }
+
+  return {
+    getVersionForTag: async (moduleName, tag) => {
+      const cached = await getJSON<{ version: string; time: number }>(`tag:${moduleName}@${tag}`)
+      return cached && Date.now() - cached.time < tagTTL ? cached.version : undefined
+    },
+    setVersionForTag: (moduleName, tag, version) =>
+      set(`tag:${moduleName}@${tag}`, JSON.stringify({ version, time: Date.now() })),
+
+    getFileTree: (moduleName, version) => getJSON<string[]>(`tree:${moduleName}@${version}`),
+    setFileTree: (moduleName, version, files) => set(`tree:${moduleName}@${version}`, JSON.stringify(files)),
+
+    getFile: (moduleName, version, path) => get(`${moduleName}@${version}${path}`),
+    setFile: (moduleName, version, path, contents) => set(`${moduleName}@${version}${path}`, contents),
+
+    list: async () => {
+      const entries = new Map<string, ATACacheEntry>()
+      for (const key of await keys()) {
+        const file = key.match(/^(@?[^@:]+)@([^/]+)\//)
+        if (!file) continue
+
+        const id = file[0]!
+        const entry = entries.get(id) || { moduleName: file[1]!, version: file[2]!, files: 0 }
+        entry.files++
+        entries.set(id, entry)
+      }
+      return Array.from(entries.values())
+    },
+    clear: async () => {
+      for (const key of await keys()) {
+        try {
+          await store.removeItem(key)
+        } catch (error) {
+          // Carry on removing the rest
+        }
+      }
+    },
+  }
+}
+
+/** Makes an `ATACacheStore` which keeps everything in memory, mainly for tests */
+export const createMemoryATACacheStore = (): ATACacheStore => {
+  const items = new Map<string, string>()
+  return {
+    getItem: key => items.get(key),
+    setItem: (key, value) => {
+      items.set(key, value)
+    },
+    keys: () => Array.from(items.keys()),
+    removeItem: key => {
+      items.delete(key)
+    },
+  }
+}
+
+/** The parts of node's fs module which `createFSBackedATACacheStore` uses */
+export interface ATACacheFS {
+  existsSync(path: string): boolean
+  readFileSync(path: string, encoding: "utf8"): string
+  writeFileSync(path: string, data: string, encoding: "utf8"): void
+  mkdirSync(path: string, options: { recursive: true }): unknown
+  readdirSync(path: string): string[]
+  unlinkSync(path: string): void
+}
+
+/**
+ * Makes an `ATACacheStore` which keeps each item as a file in a folder, for use in node.
+ *
+ * @param directory the folder to keep the files in, it is made when the first file is stored
+ * @param fs node's fs module, this is passed in so that ATA can still be bundled for the browser
+ */
+export const createFSBackedATACacheStore = (directory: string, fs: ATACacheFS): ATACacheStore => {
+  const filePath = (key: string) => `${directory.replace(/\/+$/, "")}/${encodeURIComponent(key)}`
+
+  return {
+    getItem: key => (fs.existsSync(filePath(key)) ? fs.readFileSync(filePath(key), "utf8") : undefined),
+    setItem: (key, value) => {
+      fs.mkdirSync(directory, { recursive: true })
+      fs.writeFileSync(filePath(key), value, "utf8")
+    },
+    keys: () => (fs.existsSync(directory) ? fs.readdirSync(directory).map(decodeURIComponent) : []),
+    removeItem: key => fs.unlinkSync(filePath(key)),
+  }
+}
+
+/**
+ * Makes an `ATACacheStore` which keeps everything in an IndexedDB database, which can hold
+ * much more than localStorage.
+ *
+ * @param databaseName the name of the IndexedDB database
+ * @param factory an optional replacement for the indexedDB global
+ */
+export const createIndexedDBATACacheStore = (
+  databaseName = "typescript-ata-cache",
+  factory: IDBFactory = indexedDB
+): ATACacheStore => {
+  const objectStoreName = "files"
+
+  // The database is opened when it's first used, so a browser which can't open it (e.g. Firefox's private
+  // browsing) only gets rejected promises from the store's methods, which the cache treats as misses
+  let database: Promise<IDBDatabase> | undefined
+  const openDatabase = () =>
+    database ||
+    (database = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = factory.open(databaseName, 1)
+      request.onupgradeneeded = () => request.result.createObjectStore(objectStoreName)
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    }))
+
+  const run = <T>(mode: IDBTransactionMode, makeRequest: (objectStore: IDBObjectStore) => IDBRequest<T>) =>
+    openDatabase().then(
+      db =>
+        new Promise<T>((resolve, reject) => {
+          const request = makeRequest(db.transaction(objectStoreName, mode).objectStore(objectStoreName))
+          request.onsuccess = () => resolve(request.result)
+          request.onerror = () => reject(request.error)
+        })
+    )
+
+  return {
+    getItem: key => run("readonly", objectStore => objectStore.get(key)),
+    setItem: (key, value) => run("readwrite", objectStore => objectStore.put(value, key)).then(() => {}),
+    keys: () => run("readonly", objectStore => objectStore.getAllKeys()).then(keys => keys.map(String)),
+    removeItem: key => run("readwrite", objectStore => objectStore.delete(key)).then(() => {}),
+  }
+}
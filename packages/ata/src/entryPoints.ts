@@ -0,0 +1,188 @@
+import { versionSatisfies } from "./versions"
+
+type PackageJSON = {
+  types?: string
+  typings?: string
+  main?: string
+  exports?: unknown
+  typesVersions?: Record<string, Record<string, string[]>>
+}
+
+const dtsExtensions = [".d.ts", ".d.mts", ".d.cts"]
+
+export const isDTS = (path: string) => dtsExtensions.some(ext => path.endsWith(ext))
+
+const parsePackageJSON = (packageJSON: string | undefined): PackageJSON => {
+  try {
+    return packageJSON ? JSON.parse(packageJSON) : {}
+  } catch (error) {
+    // Treat a broken package.json like a missing one
+    return {}
+  }
+}
+
+/**
+ * Works out which .d.ts files in a package TypeScript would start from, based on its package.json's
+ * `types`/`typings` (or `main`), `typesVersions` for this version of TypeScript, and the `exports` conditions.
+ * The `jsx-runtime` files are included too, because TypeScript imports them itself for JSX.
+ * Paths are inside the package and start with a /, an empty array means ATA should fall back to every .d.ts file.
+ */
+export const getDTSEntryPoints = (
+  ts: typeof import("typescript"),
+  packageJSON: string | undefined,
+  files: string[]
+) => {
+  const fileSet = new Set(files)
+  const pkg = parsePackageJSON(packageJSON)
+  const entryPoints = new Set<string>()
+
+  // The root of the package, like "import x from 'pkg'" without exports
+  const main = pkg.types || pkg.typings || (pkg.main && pkg.main.replace(/\.(m|c)?js$/, ""))
+  const rootCandidates = [main, "index"].filter((f): f is string => !!f).map(f => resolvePath("/", f))
+  const typesVersionsPaths = getTypesVersionsPaths(pkg, ts.version)
+
+  for (const candidate of rootCandidates) {
+    const mapped = typesVersionsPaths ? mapThroughTypesVersions(typesVersionsPaths, candidate, fileSet) : undefined
+    const resolved = mapped || resolveDTSFile(fileSet, candidate)
+    if (resolved) {
+      entryPoints.add(resolved)
+      break
+    }
+  }
+
+  for (const runtime of ["jsx-runtime", "jsx-dev-runtime"]) {
+    const resolved = getDTSFileForSubpath(ts, packageJSON, files, runtime)
+    if (resolved) entryPoints.add(resolved)
+  }
+
+  // Every sub-path in exports, like "import x from 'pkg/utils'"
+  const exportTargets: string[] = []
+  collectExportTargets(pkg.exports, exportTargets)
+  for (const target of exportTargets) {
+    if (target.includes("*")) {
+      // A pattern like "./dist/*.js", which means any declaration file which sits next to a matching file
+      const pattern = new RegExp("^" + escapeRegExp(resolvePath("/", target)).replace("\\*", "(.*)") + "$")
+      files.filter(f => isDTS(f) && pattern.test(toJSPath(f))).forEach(f => entryPoints.add(f))
+      files.filter(f => isDTS(f) && pattern.test(f)).forEach(f => entryPoints.add(f))
+    } else {
+      const resolved = resolveDTSFile(fileSet, resolvePath("/", target))
+      if (resolved) entryPoints.add(resolved)
+    }
+  }
+
+  return Array.from(entryPoints)
+}
+
+/**
+ * Finds the .d.ts file for a deep import into a package like "lodash/fp", going through `typesVersions`
+ * but not `exports` - which would already be an entry point.
+ */
+export const getDTSFileForSubpath = (
+  ts: typeof import("typescript"),
+  packageJSON: string | undefined,
+  files: string[],
+  subpath: string
+) => {
+  const fileSet = new Set(files)
+  const path = resolvePath("/", subpath)
+  const typesVersionsPaths = getTypesVersionsPaths(parsePackageJSON(packageJSON), ts.version)
+  const mapped = typesVersionsPaths ? mapThroughTypesVersions(typesVersionsPaths, path, fileSet) : undefined
+  return mapped || resolveDTSFile(fileSet, path)
+}
+
+/**
+ * Finds the files in the same package which a .d.ts file imports or references with a relative path, so
+ * that only the files which are reachable from the entry points get downloaded.
+ */
+export const getRelativeDTSReferences = (
+  ts: typeof import("typescript"),
+  code: string,
+  fromPath: string,
+  files: string[]
+) => {
+  const fileSet = new Set(files)
+  const meta = ts.preProcessFile(code)
+  const directory = fromPath.slice(0, fromPath.lastIndexOf("/") + 1)
+
+  const relative = meta.importedFiles.map(f => f.fileName).filter(f => f.startsWith("./") || f.startsWith("../"))
+  // Triple-slash path references are always relative, even without the ./
+  const references = meta.referencedFiles.map(f => f.fileName)
+
+  const paths = new Set<string>()
+  relative.concat(references).forEach(name => {
+    const resolved = resolveDTSFile(fileSet, resolvePath(directory, name))
+    if (resolved && resolved !== fromPath) paths.add(resolved)
+  })
+  return Array.from(paths)
+}
+
+/** Looks for the declaration file for an import path in the package like TypeScript would */
+function resolveDTSFile(files: Set<string>, path: string) {
+  const withoutJS = path.replace(/\.(m|c)?js$/, "")
+  const jsExtension = path.match(/\.(m|c)?js$/)
+  const candidates = [
+    path,
+    jsExtension ? `${withoutJS}.d.${jsExtension[1] || ""}ts` : undefined,
+    `${path}.d.ts`,
+    `${path}/index.d.ts`,
+    `${path}.d.mts`,
+    `${path}.d.cts`,
+  ]
+  return candidates.find((c): c is string => !!c && isDTS(c) && files.has(c))
+}
+
+/** Finds the declaration files from exports, preferring the "types" condition when there is one */
+function collectExportTargets(exports: unknown, targets: string[]) {
+  if (typeof exports === "string") {
+    targets.push(exports)
+  } else if (Array.isArray(exports)) {
+    exports.forEach(e => collectExportTargets(e, targets))
+  } else if (exports && typeof exports === "object") {
+    const conditions = exports as Record<string, unknown>
+    if ("types" in conditions) {
+      collectExportTargets(conditions["types"], targets)
+    } else {
+      Object.keys(conditions).forEach(key => collectExportTargets(conditions[key], targets))
+    }
+  }
+}
+
+/** Gets the path mappings from the first range in typesVersions which matches this version of TypeScript */
+function getTypesVersionsPaths(pkg: PackageJSON, tsVersion: string) {
+  if (!pkg.typesVersions || typeof pkg.typesVersions !== "object") return undefined
+
+  // TypeScript doesn't treat its own pre-releases specially when matching these ranges
+  const version = tsVersion.split("-")[0]!
+  const range = Object.keys(pkg.typesVersions).find(r => versionSatisfies(version, r))
+  return range ? pkg.typesVersions[range] : undefined
+}
+
+function mapThroughTypesVersions(paths: Record<string, string[]>, path: string, files: Set<string>) {
+  const relativePath = path.slice(1)
+
+  for (const key of Object.keys(paths)) {
+    const pattern = new RegExp("^" + escapeRegExp(key).replace("\\*", "(.*)") + "$")
+    const match = relativePath.match(pattern)
+    if (!match) continue
+
+    for (const target of paths[key] || []) {
+      const resolved = resolveDTSFile(files, resolvePath("/", target.replace("*", match[1] || "")))
+      if (resolved) return resolved
+    }
+  }
+  return undefined
+}
+
+/** Joins a relative path onto a directory which ends with a /, handling . and .. */
+function resolvePath(directory: string, path: string) {
+  const parts: string[] = []
+  ;(directory + path).split("/").forEach(part => {
+    if (part === "..") parts.pop()
+    else if (part && part !== ".") parts.push(part)
+  })
+  return "/" + parts.join("/")
+}
+
+const toJSPath = (path: string) => path.replace(/\.d\.((m|c)?)ts$/, ".$1js")
+
+const escapeRegExp = (str: string) => str.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
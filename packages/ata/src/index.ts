@@ -6,19 +6,28 @@ import {
   NPMTreeMeta,
 } from "./apis"
 import { mapModuleNameToModule } from "./edgeCases"
+import { getDTSEntryPoints, getDTSFileForSubpath, getRelativeDTSReferences, isDTS } from "./entryPoints"
+import { RegistryBackend } from "./registries"
+import { ATACache } from "./cache"
+import { getVersionPinsFromHeader, getVersionPinsFromPackageJSON, isExactVersion, VersionPins } from "./versions"
+
+export * from "./registries"
+export * from "./cache"
 
 export interface ATABootstrapConfig {
   /** A object you pass in to get callbacks */
   delegate: {
     /** The callback which gets called when ATA decides a file needs to be written to your VFS  */
     receivedFile?: (code: string, path: string) => void
+    /** The callback which gets called when a file from an older version of a module should leave your VFS */
+    removedFile?: (path: string) => void
     /** A way to display progress */
     progress?: (downloaded: number, estimatedTotal: number) => void
     /** Note: An error message does not mean ATA has stopped! */
     errorMessage?: (userFacingMessage: string, error: Error) => void
     /** A callback indicating that ATA actually has work to do */
     started?: () => void
-    /** The callback when all ATA has finished */
+    /** The callback when all ATA has finished, even when there was nothing to download, but not when ATA was aborted */
     finished?: (files: Map<string, string>) => void
   }
   /** Passed to fetch as the user-agent */
@@ -27,16 +36,61 @@ export interface ATABootstrapConfig {
   typescript: typeof import("typescript")
   /** If you need a custom version of fetch */
   fetcher?: typeof fetch
+  /** Where to get packages from, defaults to jsDelivr - see createJSDelivrBackend, createUnpkgBackend and createNPMTarballBackend */
+  registry?: RegistryBackend
+  /** Keeps what ATA downloads between sessions, see createATACache */
+  cache?: ATACache
   /** If you need a custom logger instead of the console global */
   logger?: Logger
 }
 
-type ModuleMeta = { state: "loading" }
+/**
+ * The pin is kept so that a module gets downloaded again when its pinned version changes, and the
+ * subpaths (like "fp" for "lodash/fp") so that a deep import which hasn't been seen yet gets its files
+ */
+type ModuleMeta = { state: "loading"; pin?: string; subpaths: string[] }
+
+/** Extra information for an ATA run */
+export interface ATARunOptions {
+  /**
+   * The text of a package.json, e.g. `fsMap.get("/package.json")`. The versions in its dependencies are used
+   * for the modules which get imported, and for their @types packages. `// @types: name@version` lines at the
+   * top of the source file are used too, and win over the package.json.
+   */
+  packageJSON?: string
+}
+
+/** What you get back each time you run ATA */
+export interface ATARun {
+  /**
+   * Stops the downloads which are still happening. Runs which overlap share their work, so this
+   * stops every run which was started before this one was finished.
+   */
+  abort: () => void
+  /** Resolves with all of the files ATA has once it's done, or with the files so far if it was aborted */
+  files: Promise<Map<string, string>>
+}
+
+/** The state which is shared between runs which overlap, so that they can share one started and finished */
+type ATABatch = {
+  controller: AbortController | undefined
+  aborted: boolean
+  /** How many runs are still working */
+  running: number
+  /** The modules which this batch has set to load, so that they can be tried again after an abort */
+  modules: string[]
+  started: boolean
+  estimatedToDownload: number
+  estimatedDownloaded: number
+  files: Promise<Map<string, string>>
+  done: (files: Map<string, string>) => void
+}
 
 /**
  * The function which starts up type acquisition,
  * returns a function which you then pass the initial
- * source code for the app with.
+ * source code for the app with. Each call to that
+ * returns an `ATARun`, which can be used to abort it.
  *
  * This is effectively the main export, everything else is
  * basically exported for tests and should be considered
@@ -46,112 +100,243 @@ export const setupTypeAcquisition = (config: ATABootstrapConfig) => {
   const moduleMap = new Map<string, ModuleMeta>()
   const fsMap = new Map<string, string>()
 
-  let estimatedToDownload = 0
-  let estimatedDownloaded = 0
+  // Calling ata while an earlier call is still downloading joins in with it, rather than starting again
+  let currentBatch: ATABatch | undefined
 
-  return (initialSourceFile: string) => {
-    estimatedToDownload = 0
-    estimatedDownloaded = 0
+  return (initialSourceFile: string, options: ATARunOptions = {}): ATARun => {
+    const batch = currentBatch || (currentBatch = createBatch())
+    batch.running++
 
-    resolveDeps(initialSourceFile, 0).then(t => {
-      if (estimatedDownloaded > 0) {
-        config.delegate.finished?.(fsMap)
-      }
-    })
+    const pins = {
+      ...getVersionPinsFromPackageJSON(options.packageJSON),
+      ...getVersionPinsFromHeader(initialSourceFile),
+    }
+
+    resolveDeps(initialSourceFile, batch, pins)
+      .catch(error => {
+        if (!batch.aborted) config.logger?.error("ATA failed", error)
+      })
+      .then(() => {
+        batch.running--
+        if (batch.running === 0) finishBatch(batch)
+      })
+
+    return { abort: () => abortBatch(batch), files: batch.files }
   }
 
-  async function resolveDeps(initialSourceFile: string, depth: number) {
-    const depsToGet = getNewDependencies(config, moduleMap, initialSourceFile)
+  function createBatch(): ATABatch {
+    let done: ATABatch["done"] = () => {}
+    const files = new Promise<Map<string, string>>(resolve => (done = resolve))
+
+    // Older versions of node don't have AbortController, ATA still stops there but the requests carry on
+    const controller = typeof AbortController !== "undefined" ? new AbortController() : undefined
+    return {
+      controller,
+      aborted: false,
+      running: 0,
+      modules: [],
+      started: false,
+      estimatedToDownload: 0,
+      estimatedDownloaded: 0,
+      files,
+      done,
+    }
+  }
+
+  function finishBatch(batch: ATABatch) {
+    if (currentBatch === batch) currentBatch = undefined
+    if (batch.aborted) return
+
+    // Make sure the last progress note has the final counts
+    if (batch.started && batch.estimatedDownloaded % 5 !== 0) {
+      config.delegate.progress?.(batch.estimatedDownloaded, batch.estimatedToDownload)
+    }
+    config.delegate.finished?.(fsMap)
+    batch.done(fsMap)
+  }
+
+  function abortBatch(batch: ATABatch) {
+    if (batch.aborted || batch.running === 0) return
+
+    batch.aborted = true
+    batch.controller?.abort()
+    if (currentBatch === batch) currentBatch = undefined
+
+    // These might not have been fully downloaded, so let a later run get them again
+    batch.modules.forEach(m => moduleMap.delete(m))
+    batch.done(fsMap)
+  }
+
+  /**
+   * The pins are the versions the user asked for, which apply all the way down. The inherited versions
+   * come from the package.json of the package which imported this code, so that its dependencies are
+   * versions which it works with. There are no inherited versions for the user's own code.
+   */
+  async function resolveDeps(initialSourceFile: string, batch: ATABatch, pins: VersionPins, inherited?: VersionPins) {
+    const depsToGet = getNewDependencies(config, moduleMap, initialSourceFile, pins, !inherited)
+    const signal = batch.controller?.signal
 
     // Make it so it won't get re-downloaded
-    depsToGet.forEach(dep => moduleMap.set(dep.module, { state: "loading" }))
+    depsToGet.forEach(dep => {
+      // A module which comes back for anything but its deep imports has a new pin, so the old version has to go
+      if (moduleMap.has(dep.module) && !dep.onlySubpaths) removeModuleFiles(dep.module)
+
+      const existing = dep.onlySubpaths ? moduleMap.get(dep.module)!.subpaths : []
+      moduleMap.set(dep.module, { state: "loading", pin: dep.pin, subpaths: existing.concat(dep.subpaths) })
+    })
+    batch.modules.push(...depsToGet.map(dep => dep.module))
 
     // Grab the module trees which gives us a list of files to download
-    const trees = await Promise.all(depsToGet.map(f => getFileTreeForModuleWithTag(config, f.module, f.version)))
-    const treesOnly = trees.filter(t => !("error" in t)) as NPMTreeMeta[]
+    const trees = await Promise.all(
+      depsToGet.map(f =>
+        getFileTreeForModuleWithTag(config, f.module, f.pin || inherited?.[f.module] || f.version, signal)
+      )
+    )
+    if (batch.aborted) return
+
+    // Keep track of which dependency each tree is for, including the trees from DT
+    const depsForTrees = new Map<NPMTreeMeta, typeof depsToGet[number]>()
+    trees.forEach((tree, index) => {
+      if (!("error" in tree)) depsForTrees.set(tree, depsToGet[index]!)
+    })
+    const treesOnly = Array.from(depsForTrees.keys())
 
     // These are the modules which we can grab directly
-    const hasDTS = treesOnly.filter(t => t.files.find(f => f.name.endsWith(".d.ts")))
-    const dtsFilesFromNPM = hasDTS.map(t => treeToDTSFiles(t, `/node_modules/${t.moduleName}`))
+    const hasDTS = treesOnly.filter(t => t.files.find(f => isDTS(f.name)))
 
     // These are ones we need to look on DT for (which may not be there, who knows)
     const mightBeOnDT = treesOnly.filter(t => !hasDTS.includes(t))
-    const dtTrees = await Promise.all(
-      // TODO: Switch from 'latest' to the version from the original tree which is user-controlled
-      mightBeOnDT.map(f => getFileTreeForModuleWithTag(config, `@types/${getDTName(f.moduleName)}`, "latest"))
-    )
+    const dtTrees = await Promise.all(mightBeOnDT.map(f => getDTFileTree(f, pins, inherited || {}, signal)))
+    if (batch.aborted) return
 
+    dtTrees.forEach((tree, index) => {
+      if (!("error" in tree)) depsForTrees.set(tree, depsForTrees.get(mightBeOnDT[index]!)!)
+    })
     const dtTreesOnly = dtTrees.filter(t => !("error" in t)) as NPMTreeMeta[]
-    const dtsFilesFromDT = dtTreesOnly.map(t => treeToDTSFiles(t, `/node_modules/@types/${getDTName(t.moduleName).replace("types__", "")}`))
+    const npmPackages = hasDTS.map(tree => ({ tree, prefix: `/node_modules/${tree.moduleName}` }))
+    const dtPackages = dtTreesOnly.map(tree => ({
+      tree,
+      prefix: `/node_modules/@types/${getDTName(tree.moduleName).replace("types__", "")}`,
+    }))
+
+    // Grab the package.jsons for each dependency, they say which .d.ts files are the entry points
+    const packages = await Promise.all(
+      npmPackages.concat(dtPackages).map(async ({ tree, prefix }) => {
+        const path = prefix + "/package.json"
+        const pkgJSON = await getDTSFileForModuleWithVersion(
+          config,
+          tree.moduleName,
+          tree.version,
+          "/package.json",
+          signal
+        )
+
+        if (typeof pkgJSON != "string") {
+          config.logger?.error(`Could not download package.json for ${tree.moduleName}`)
+        } else if (!batch.aborted) {
+          fsMap.set(path, pkgJSON)
+          config.delegate.receivedFile?.(pkgJSON, path)
+        }
 
-    // Collect all the npm and DT DTS requests and flatten their arrays
-    const allDTSFiles = dtsFilesFromNPM.concat(dtsFilesFromDT).reduce((p, c) => p.concat(c), [])
-    estimatedToDownload += allDTSFiles.length
-    if (allDTSFiles.length && depth === 0) {
-      config.delegate.started?.()
-    }
+        const files = tree.files.map(f => f.name)
+        const packageJSON = typeof pkgJSON == "string" ? pkgJSON : undefined
+        const dep = depsForTrees.get(tree)!
+
+        // Deep imports like "lodash/fp" can reach files which aren't entry points, when a package was
+        // already downloaded only the files for its new deep imports are needed
+        const subpathEntryPoints = dep.subpaths
+          .map(subpath => getDTSFileForSubpath(config.typescript, packageJSON, files, subpath))
+          .filter((f): f is string => !!f)
+        const entryPoints = dep.onlySubpaths
+          ? subpathEntryPoints
+          : Array.from(new Set(getDTSEntryPoints(config.typescript, packageJSON, files).concat(subpathEntryPoints)))
+
+        // When there's no way to tell where the types start, fall back to grabbing every .d.ts file
+        if (!entryPoints.length && !dep.onlySubpaths) entryPoints.push(...files.filter(isDTS))
+        // The packages imported by this one's .d.ts files should be versions it depends on
+        const dependencies = getVersionPinsFromPackageJSON(packageJSON, false)
+        return { tree, prefix, files, entryPoints, dependencies, onlySubpaths: dep.onlySubpaths }
+      })
+    )
 
-    // Grab the package.jsons for each dependency
-    for (const tree of treesOnly) {
-      let prefix = `/node_modules/${tree.moduleName}`
-      if (dtTreesOnly.includes(tree)) prefix = `/node_modules/@types/${getDTName(tree.moduleName).replace("types__", "")}`
-      const path = prefix + "/package.json"
-      const pkgJSON = await getDTSFileForModuleWithVersion(config, tree.moduleName, tree.version, "/package.json")
-
-      if (typeof pkgJSON == "string") {
-        fsMap.set(path, pkgJSON)
-        config.delegate.receivedFile?.(pkgJSON, path)
-      } else {
-        config.logger?.error(`Could not download package.json for ${tree.moduleName}`)
-      }
+    if (batch.aborted) return
+
+    const entryPointCount = packages.reduce((total, pkg) => total + pkg.entryPoints.length, 0)
+    batch.estimatedToDownload += entryPointCount
+    if (entryPointCount && !batch.started) {
+      batch.started = true
+      config.delegate.started?.()
     }
 
-    // Grab all dts files
+    // Grab the dts files, starting from the entry points and following their relative imports through each package
     await Promise.all(
-      allDTSFiles.map(async dts => {
-        const dtsCode = await getDTSFileForModuleWithVersion(config, dts.moduleName, dts.moduleVersion, dts.path)
-        estimatedDownloaded++
-        if (dtsCode instanceof Error) {
-          // TODO?
-          config.logger?.error(`Had an issue getting ${dts.path} for ${dts.moduleName}`)
-        } else {
-          fsMap.set(dts.vfsPath, dtsCode)
-          config.delegate.receivedFile?.(dtsCode, dts.vfsPath)
-
-          // Send a progress note every 5 downloads
-          if (config.delegate.progress && estimatedDownloaded % 5 === 0) {
-            config.delegate.progress(estimatedDownloaded, estimatedToDownload)
+      packages.map(pkg => {
+        const queued = new Set(pkg.entryPoints)
+
+        const download = async (path: string): Promise<void> => {
+          const { moduleName, version } = pkg.tree
+          const dtsCode = await getDTSFileForModuleWithVersion(config, moduleName, version, path, signal)
+          if (batch.aborted) return
+
+          batch.estimatedDownloaded++
+          if (dtsCode instanceof Error) {
+            // TODO?
+            config.logger?.error(`Had an issue getting ${path} for ${moduleName}`)
+          } else {
+            const vfsPath = pkg.prefix + path
+            fsMap.set(vfsPath, dtsCode)
+            config.delegate.receivedFile?.(dtsCode, vfsPath)
+
+            // Send a progress note every 5 downloads
+            if (config.delegate.progress && batch.estimatedDownloaded % 5 === 0) {
+              config.delegate.progress(batch.estimatedDownloaded, batch.estimatedToDownload)
+            }
+
+            // The files in this package which haven't been seen yet, or downloaded for an earlier import of it
+            const references = getRelativeDTSReferences(config.typescript, dtsCode, path, pkg.files)
+            const next = references.filter(f => !queued.has(f) && !(pkg.onlySubpaths && fsMap.has(pkg.prefix + f)))
+            next.forEach(f => queued.add(f))
+            batch.estimatedToDownload += next.length
+
+            // Recurse through deps
+            await Promise.all([resolveDeps(dtsCode, batch, pins, pkg.dependencies), ...next.map(download)])
           }
-
-          // Recurse through deps
-          await resolveDeps(dtsCode, depth + 1)
         }
+
+        return Promise.all(pkg.entryPoints.map(download))
       })
     )
   }
-}
-
-type ATADownload = {
-  moduleName: string
-  moduleVersion: string
-  vfsPath: string
-  path: string
-}
-
-function treeToDTSFiles(tree: NPMTreeMeta, vfsPrefix: string) {
-  const dtsRefs: ATADownload[] = []
 
-  for (const file of tree.files) {
-    if (file.name.endsWith(".d.ts")) {
-      dtsRefs.push({
-        moduleName: tree.moduleName,
-        moduleVersion: tree.version,
-        vfsPath: `${vfsPrefix}${file.name}`,
-        path: file.name,
+  /** Removes the files for a module and its @types package, so that two versions don't get mixed together */
+  function removeModuleFiles(moduleName: string) {
+    const prefixes = [`/node_modules/${moduleName}/`, `/node_modules/@types/${getDTName(moduleName)}/`]
+    Array.from(fsMap.keys())
+      .filter(path => prefixes.some(prefix => path.startsWith(prefix)))
+      .forEach(path => {
+        fsMap.delete(path)
+        config.delegate.removedFile?.(path)
       })
+  }
+
+  /** Finds the @types package for a module, matching the major and minor version of the module unless it was pinned */
+  async function getDTFileTree(tree: NPMTreeMeta, pins: VersionPins, inherited: VersionPins, signal?: AbortSignal) {
+    const dtName = `@types/${getDTName(tree.moduleName)}`
+
+    // A "*" from a package.json doesn't say anything, so the module's version is a better guess
+    const inheritedRange = inherited[dtName] !== "*" ? inherited[dtName] : undefined
+    const pinned = pins[dtName] || inheritedRange
+    const [major, minor] = tree.version.split(".")
+    const matching = isExactVersion(tree.version) ? [`${major}.${minor}`, major!, "latest"] : ["latest"]
+    const candidates = pinned ? [pinned] : matching
+
+    let dtTree: Awaited<ReturnType<typeof getFileTreeForModuleWithTag>> | undefined
+    for (const candidate of candidates) {
+      dtTree = await getFileTreeForModuleWithTag(config, dtName, candidate, signal)
+      if (!("error" in dtTree) || signal?.aborted) break
     }
+    return dtTree!
   }
-  return dtsRefs
 }
 
 /**
@@ -188,32 +373,78 @@ export const getReferencesForModule = (ts: typeof import("typescript"), code: st
   })
 }
 
-/** A list of modules from the current sourcefile which we don't have existing files for */
-export function getNewDependencies(config: ATABootstrapConfig, moduleMap: Map<string, ModuleMeta>, code: string) {
-  const refs = getReferencesForModule(config.typescript, code).map(ref => ({
-    ...ref,
-    module: mapModuleNameToModule(ref.module),
-  }))
+/**
+ * A list of modules from the current sourcefile which we don't have existing files for. In the user's own code
+ * a module without a pin goes back to its default version, while in a dependency it keeps the version it has.
+ */
+export function getNewDependencies(
+  config: ATABootstrapConfig,
+  moduleMap: Map<string, ModuleMeta>,
+  code: string,
+  pins: VersionPins = {},
+  fromUserCode = true
+) {
+  const refs = getReferencesForModule(config.typescript, code).map(ref => {
+    const { module, subpath } = splitModuleName(mapModuleNameToModule(ref.module))
+    // An inline `// types:` comment wins over the pinned versions
+    const pin = ref.version && ref.version !== "latest" ? ref.version : pins[module]
+    return { ...ref, module, subpath, pin }
+  })
+
+  // Drop relative paths because we're getting all the files, and put the deep imports of each module together
+  const modules: { module: string; version?: string; pin?: string; subpaths: string[]; onlySubpaths: boolean }[] = []
+  refs
+    .filter(f => !f.module.startsWith("."))
+    .forEach(ref => {
+      const existing = modules.find(m => m.module === ref.module)
+      const subpaths = ref.subpath ? [ref.subpath] : []
+      if (!existing) {
+        modules.push({ module: ref.module, version: ref.version, pin: ref.pin, subpaths, onlySubpaths: false })
+      } else if (ref.subpath && !existing.subpaths.includes(ref.subpath)) {
+        existing.subpaths.push(ref.subpath)
+      }
+    })
+
+  // Modules come back when their pin changes, or when they have deep imports which haven't been downloaded
+  return modules.filter(m => {
+    const meta = moduleMap.get(m.module)
+    if (!meta || ((m.pin || fromUserCode) && meta.pin !== m.pin)) return true
+
+    // New deep imports come from the version which was already downloaded
+    m.pin = meta.pin
+    m.subpaths = m.subpaths.filter(subpath => !meta.subpaths.includes(subpath))
+    m.onlySubpaths = true
+    return m.subpaths.length > 0
+  })
+}
 
-  // Drop relative paths because we're getting all the files
-  const modules = refs.filter(f => !f.module.startsWith(".")).filter(m => !moduleMap.has(m.module))
-  return modules
+/** Splits an import like "@scope/pkg/sub/path" into the package and the path inside it */
+const splitModuleName = (name: string) => {
+  const parts = name.split("/")
+  const packageParts = name.startsWith("@") ? 2 : 1
+  return { module: parts.slice(0, packageParts).join("/"), subpath: parts.slice(packageParts).join("/") }
 }
 
 /** The bulk load of the work in getting the filetree based on how people think about npm names and versions */
 export const getFileTreeForModuleWithTag = async (
   config: ATABootstrapConfig,
   moduleName: string,
-  tag: string | undefined
+  tag: string | undefined,
+  signal?: AbortSignal
 ) => {
   let toDownload = tag || "latest"
 
-  // I think having at least 2 dots is a reasonable approx for being a semver and not a tag,
-  // we can skip an API request, TBH this is probably rare
-  if (toDownload.split(".").length < 2) {
+  // A tag (or range) which was looked up recently can skip the API request
+  const isExact = isExactVersion(toDownload)
+  const cachedVersion = isExact ? undefined : await config.cache?.getVersionForTag(moduleName, toDownload)
+  if (cachedVersion) toDownload = cachedVersion
+
+  // An exact version can skip an API request, but tags like "latest" and ranges like "^17"
+  // from a package.json need to be resolved first
+  if (!isExactVersion(toDownload)) {
     // The jsdelivr API needs a _version_ not a tag. So, we need to switch out
     // the tag to the version via an API request.
-    const response = await getNPMVersionForModuleReference(config, moduleName, toDownload)
+    const response = await getNPMVersionForModuleReference(config, moduleName, toDownload, signal)
     if (response instanceof Error) {
       return {
         error: response,
@@ -223,7 +454,7 @@ export const getFileTreeForModuleWithTag = async (
 
     const neededVersion = response.version
     if (!neededVersion) {
-      const versions = await getNPMVersionsForModule(config, moduleName)
+      const versions = await getNPMVersionsForModule(config, moduleName, signal)
       if (versions instanceof Error) {
         return {
           error: response,
@@ -238,10 +469,17 @@ export const getFileTreeForModuleWithTag = async (
       }
     }
 
+    await config.cache?.setVersionForTag(moduleName, toDownload, neededVersion)
     toDownload = neededVersion
   }
 
-  const res = await getFiletreeForModuleWithVersion(config, moduleName, toDownload)
+  // The files in a version never change, so a cached tree is always good
+  const cachedFiles = await config.cache?.getFileTree(moduleName, toDownload)
+  if (cachedFiles) {
+    return { files: cachedFiles.map(name => ({ name })), moduleName, version: toDownload }
+  }
+
+  const res = await getFiletreeForModuleWithVersion(config, moduleName, toDownload, signal)
   if (res instanceof Error) {
     return {
       error: res,
@@ -249,6 +487,11 @@ export const getFileTreeForModuleWithTag = async (
     }
   }
 
+  await config.cache?.setFileTree(
+    moduleName,
+    toDownload,
+    res.files.map(f => f.name)
+  )
   return res
 }
 
@@ -0,0 +1,250 @@
+import { maxSatisfying } from "./versions"
+
+/**
+ * Where ATA gets the versions, file lists and files for npm packages from. Each method gets the
+ * `AbortSignal` for the ATA run, which should be passed along to fetch when there is one.
+ */
+export interface RegistryBackend {
+  /** Turns a tag like "latest" into a version, or null when the package has no such tag */
+  resolveVersion: (moduleName: string, reference: string, signal?: AbortSignal) => Promise<string | null | Error>
+  /** Lists every file in a version of a package, each path starts with a / */
+  listFiles: (moduleName: string, version: string, signal?: AbortSignal) => Promise<string[] | Error>
+  /** Grabs the text of a file in a version of a package, the path starts with a / */
+  fetchFile: (moduleName: string, version: string, path: string, signal?: AbortSignal) => Promise<string | Error>
+  /** Optional, gets the tags for a package so that typos can be explained to users */
+  getTags?: (moduleName: string, signal?: AbortSignal) => Promise<Record<string, string> | Error>
+}
+
+export interface RegistryBackendOptions {
+  /** If you need a custom version of fetch */
+  fetcher?: typeof fetch
+  /** The root URL to use instead of the public one, e.g. for a mirror */
+  baseURL?: string
+  /** Headers to send with every request, e.g. an Authorization header for a private registry */
+  headers?: Record<string, string>
+}
+
+//  https://github.com/jsdelivr/data.jsdelivr.com
+
+/**
+ * Uses the jsDelivr API for versions and file lists, and the jsDelivr CDN for the files. This is the default.
+ * The `baseURL` is for the CDN, and `dataURL` is for the API.
+ */
+export const createJSDelivrBackend = (options: RegistryBackendOptions & { dataURL?: string } = {}): RegistryBackend => {
+  const cdn = trimSlash(options.baseURL || "https://cdn.jsdelivr.net/npm")
+  const data = trimSlash(options.dataURL || "https://data.jsdelivr.com/v1/package")
+
+  return {
+    resolveVersion: async (moduleName, reference, signal) => {
+      const url = `${data}/resolve/npm/${moduleName}@${reference}`
+      const res = await getJSON<{ version: string | null }>(options, url, { signal })
+      return res instanceof Error ? res : res.version
+    },
+    listFiles: async (moduleName, version, signal) => {
+      const url = `${data}/npm/${moduleName}@${version}/flat`
+      const res = await getJSON<{ files: Array<{ name: string }> }>(options, url, { signal })
+      return res instanceof Error ? res : res.files.map(f => f.name)
+    },
+    fetchFile: (moduleName, version, path, signal) =>
+      getText(options, `${cdn}/${moduleName}@${version}${path}`, { signal }),
+    getTags: async (moduleName, signal) => {
+      const url = `${data}/npm/${moduleName}`
+      const res = await getJSON<{ tags: Record<string, string> }>(options, url, { cache: "no-store", signal })
+      return res instanceof Error ? res : res.tags
+    },
+  }
+}
+
+type UnpkgMeta = { path?: string; type?: string; files?: UnpkgMeta[] }
+
+/** Uses unpkg (or a server with the same API) for everything */
+export const createUnpkgBackend = (options: RegistryBackendOptions = {}): RegistryBackend => {
+  const root = trimSlash(options.baseURL || "https://unpkg.com")
+
+  return {
+    resolveVersion: async (moduleName, reference, signal) => {
+      // unpkg redirects tags to the version, so the package.json says which version it is
+      const url = `${root}/${moduleName}@${reference}/package.json`
+      const res = await getJSON<{ version?: string }>(options, url, { signal })
+      return res instanceof Error ? res : res.version || null
+    },
+    listFiles: async (moduleName, version, signal) => {
+      const res = await getJSON<UnpkgMeta>(options, `${root}/${moduleName}@${version}/?meta`, { signal })
+      if (res instanceof Error) return res
+
+      // Older versions of unpkg give a tree of folders, newer ones give a flat list of files
+      const files: string[] = []
+      const walk = (meta: UnpkgMeta) => {
+        if (meta.type !== "directory" && meta.path) files.push(meta.path)
+        meta.files?.forEach(walk)
+      }
+      walk(res)
+      return files
+    },
+    fetchFile: (moduleName, version, path, signal) =>
+      getText(options, `${root}/${moduleName}@${version}${path}`, { signal }),
+  }
+}
+
+type Packument = {
+  "dist-tags": Record<string, string>
+  versions: Record<string, { dist: { tarball: string } }>
+}
+
+/**
+ * Uses an npm registry, like a private company registry, by downloading the tarball for each package.
+ * The tarballs are gzipped, which uses `DecompressionStream` by default - pass `gunzip` where that
+ * isn't available (e.g. `data => zlib.gunzipSync(data)` in older versions of node.)
+ */
+export const createNPMTarballBackend = (
+  options: RegistryBackendOptions & { gunzip?: (data: Uint8Array) => Promise<Uint8Array> | Uint8Array } = {}
+): RegistryBackend => {
+  const registry = trimSlash(options.baseURL || "https://registry.npmjs.org")
+  const gunzip = options.gunzip || gunzipWithStreams
+  const packuments = new Map<string, Promise<Packument | Error>>()
+  const tarballs = new Map<string, Promise<Map<string, Uint8Array> | Error>>()
+
+  // Downloads which were aborted (or couldn't connect) are dropped from the caches, so that they can be tried again
+  const getPackument = (moduleName: string, signal?: AbortSignal) => {
+    if (!packuments.has(moduleName)) {
+      // The abbreviated form of the metadata is much smaller, and has everything needed here
+      const accept = "application/vnd.npm.install-v1+json; q=1.0, application/json; q=0.8"
+      const url = `${registry}/${moduleName.replace("/", "%2f")}`
+      const packument = getJSON<Packument>(options, url, { headers: { Accept: accept }, signal })
+      packuments.set(moduleName, packument)
+      packument.catch(() => packuments.delete(moduleName))
+    }
+    return packuments.get(moduleName)!
+  }
+
+  const getFiles = (moduleName: string, version: string, signal?: AbortSignal) => {
+    const key = `${moduleName}@${version}`
+    if (!tarballs.has(key)) {
+      const files = getPackument(moduleName, signal).then(async packument => {
+        if (packument instanceof Error) return packument
+        const meta = packument.versions[version]
+        if (!meta) return new Error(`Could not find ${key} in the registry`)
+
+        const res = await request(options, meta.dist.tarball, { signal })
+        if (!res.ok) return new Error(`Could not download the tarball for ${key}`)
+        const tar = await gunzip(new Uint8Array(await res.arrayBuffer()))
+        return readTarFiles(tar)
+      })
+      tarballs.set(key, files)
+      files.catch(() => tarballs.delete(key))
+    }
+    return tarballs.get(key)!
+  }
+
+  return {
+    resolveVersion: async (moduleName, reference, signal) => {
+      const packument = await getPackument(moduleName, signal)
+      if (packument instanceof Error) return packument
+      const tagged = packument["dist-tags"][reference]
+      if (tagged) return tagged
+      if (packument.versions[reference]) return reference
+      // A range like "^17" from a package.json
+      return maxSatisfying(Object.keys(packument.versions), reference) || null
+    },
+    listFiles: async (moduleName, version, signal) => {
+      const files = await getFiles(moduleName, version, signal)
+      return files instanceof Error ? files : Array.from(files.keys())
+    },
+    fetchFile: async (moduleName, version, path, signal) => {
+      const files = await getFiles(moduleName, version, signal)
+      if (files instanceof Error) return files
+
+      const file = files.get(path)
+      return file ? new TextDecoder().decode(file) : new Error(`Could not find ${path} in ${moduleName}@${version}`)
+    },
+    getTags: async (moduleName, signal) => {
+      const packument = await getPackument(moduleName, signal)
+      return packument instanceof Error ? packument : packument["dist-tags"]
+    },
+  }
+}
+
+const trimSlash = (url: string) => url.replace(/\/+$/, "")
+
+function request(options: RegistryBackendOptions, url: string, init: RequestInit = {}) {
+  const f = options.fetcher || fetch
+  return f(url, { ...init, headers: { ...options.headers, ...(init.headers as Record<string, string>) } })
+}
+
+function getJSON<T>(options: RegistryBackendOptions, url: string, init?: RequestInit): Promise<T | Error> {
+  return request(options, url, init).then(res => {
+    if (res.ok) {
+      return res.json().then(f => f as T)
+    } else {
+      return new Error("OK")
+    }
+  })
+}
+
+async function getText(options: RegistryBackendOptions, url: string, init?: RequestInit) {
+  const res = await request(options, url, init)
+  if (res.ok) {
+    return res.text()
+  } else {
+    return new Error("OK")
+  }
+}
+
+/** This is in newer browsers and node 18, but not in the dom types for the version of TypeScript used here */
+declare const DecompressionStream: (new (format: "gzip") => TransformStream<Uint8Array, Uint8Array>) | undefined
+
+async function gunzipWithStreams(data: Uint8Array) {
+  if (typeof DecompressionStream === "undefined")
+    throw new Error("There is no DecompressionStream to un-gzip npm tarballs with, pass gunzip instead")
+
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream("gzip"))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+/** Reads the files from a package's tarball, with their paths inside the package (the tarball wraps them in a folder) */
+function readTarFiles(tar: Uint8Array) {
+  const files = new Map<string, Uint8Array>()
+  readTarEntries(tar).forEach((contents, name) => files.set("/" + name.slice(name.indexOf("/") + 1), contents))
+  return files
+}
+
+/**
+ * Reads the files from a tar archive, supporting the ustar, pax and GNU long name headers which npm uses.
+ * This is the same as `readTarEntries` in @typescript/vfs, and is tested against the same tarballs.
+ */
+function readTarEntries(tar: Uint8Array) {
+  const files = new Map<string, Uint8Array>()
+  const decoder = new TextDecoder()
+  const readString = (start: number, length: number) => {
+    const bytes = tar.subarray(start, start + length)
+    const end = bytes.indexOf(0)
+    return decoder.decode(end === -1 ? bytes : bytes.subarray(0, end))
+  }
+
+  let offset = 0
+  let nextName: string | undefined
+  while (offset + 512 <= tar.length) {
+    const name = readString(offset, 100)
+    // Two empty blocks mark the end of the archive
+    if (!name) break
+
+    const size = parseInt(readString(offset + 124, 12).trim() || "0", 8)
+    const type = String.fromCharCode(tar[offset + 156]!)
+    const prefix = readString(offset + 257, 6) === "ustar" ? readString(offset + 345, 155) : ""
+    const contents = tar.subarray(offset + 512, offset + 512 + size)
+
+    if (type === "x") {
+      // A pax header, which can hold a long path for the next file in records like `27 path=some/file.d.ts`
+      const path = decoder.decode(contents).match(/^\d+ path=(.*)$/m)
+      if (path) nextName = path[1]
+    } else if (type === "L") {
+      nextName = decoder.decode(contents).replace(/\0+$/, "")
+    } else {
+      if (type === "0" || type === "\0") files.set(nextName || (prefix ? `${prefix}/${name}` : name), contents)
+      nextName = undefined
+    }
+
+    offset += 512 + Math.ceil(size / 512) * 512
+  }
+  return files
+}
@@ -3,13 +3,15 @@ export interface ATABootstrapConfig {
   delegate: {
     /** The callback which gets called when ATA decides a file needs to be written to your VFS  */
     receivedFile?: (code: string, path: string) => void
+    /** The callback which gets called when a file from an older version of a module should leave your VFS */
+    removedFile?: (path: string) => void
     /** A way to display progress */
     progress?: (downloaded: number, estimatedTotal: number) => void
     /** Note: An error message does not mean ATA has stopped! */
     errorMessage?: (userFacingMessage: string, error: Error) => void
     /** A callback indicating that ATA actually has work to do */
     started?: () => void
-    /** The callback when all ATA has finished */
+    /** The callback when all ATA has finished, even when there was nothing to download, but not when ATA was aborted */
     finished?: (files: Map<string, string>) => void
   }
   /** Passed to fetch as the user-agent */
@@ -18,22 +20,169 @@ export interface ATABootstrapConfig {
   typescript: typeof import("typescript")
   /** If you need a custom version of fetch */
   fetcher?: typeof fetch
+  /** Where to get packages from, defaults to jsDelivr - see createJSDelivrBackend, createUnpkgBackend and createNPMTarballBackend */
+  registry?: RegistryBackend
+  /** Keeps what ATA downloads between sessions, see createATACache */
+  cache?: ATACache
   /** If you need a custom logger instead of the console global */
   logger?: Logger
 }
 
-type ModuleMeta = { state: "loading" }
+type ModuleMeta = { state: "loading"; pin?: string; subpaths: string[] }
+
+/** Extra information for an ATA run */
+export interface ATARunOptions {
+  /**
+   * The text of a package.json, e.g. `fsMap.get("/package.json")`. The versions in its dependencies are used
+   * for the modules which get imported, and for their @types packages. `// @types: name@version` lines at the
+   * top of the source file are used too, and win over the package.json.
+   */
+  packageJSON?: string
+}
+
+/** What you get back each time you run ATA */
+export interface ATARun {
+  /**
+   * Stops the downloads which are still happening. Runs which overlap share their work, so this
+   * stops every run which was started before this one was finished.
+   */
+  abort: () => void
+  /** Resolves with all of the files ATA has once it's done, or with the files so far if it was aborted */
+  files: Promise<Map<string, string>>
+}
 
 /**
  * The function which starts up type acquisition,
  * returns a function which you then pass the initial
- * source code for the app with.
+ * source code for the app with. Each call to that
+ * returns an `ATARun`, which can be used to abort it.
  *
  * This is effectively the main export, everything else is
  * basically exported for tests and should be considered
  * implementation details by consumers.
  */
-export const setupTypeAcquisition: (config: ATABootstrapConfig) => (initialSourceFile: string) => void
+export const setupTypeAcquisition: (config: ATABootstrapConfig) => (
+  initialSourceFile: string,
+  options?: ATARunOptions
+) => ATARun
+
+/**
+ * Where ATA gets the versions, file lists and files for npm packages from. Each method gets the
+ * `AbortSignal` for the ATA run, which should be passed along to fetch when there is one.
+ */
+export interface RegistryBackend {
+  /** Turns a tag like "latest" into a version, or null when the package has no such tag */
+  resolveVersion: (moduleName: string, reference: string, signal?: AbortSignal) => Promise<string | null | Error>
+  /** Lists every file in a version of a package, each path starts with a / */
+  listFiles: (moduleName: string, version: string, signal?: AbortSignal) => Promise<string[] | Error>
+  /** Grabs the text of a file in a version of a package, the path starts with a / */
+  fetchFile: (moduleName: string, version: string, path: string, signal?: AbortSignal) => Promise<string | Error>
+  /** Optional, gets the tags for a package so that typos can be explained to users */
+  getTags?: (moduleName: string, signal?: AbortSignal) => Promise<Record<string, string> | Error>
+}
+
+export interface RegistryBackendOptions {
+  /** If you need a custom version of fetch */
+  fetcher?: typeof fetch
+  /** The root URL to use instead of the public one, e.g. for a mirror */
+  baseURL?: string
+  /** Headers to send with every request, e.g. an Authorization header for a private registry */
+  headers?: Record<string, string>
+}
+
+/**
+ * Uses the jsDelivr API for versions and file lists, and the jsDelivr CDN for the files. This is the default.
+ * The `baseURL` is for the CDN, and `dataURL` is for the API.
+ */
+export const createJSDelivrBackend: (options?: RegistryBackendOptions & { dataURL?: string }) => RegistryBackend
+
+/** Uses unpkg (or a server with the same API) for everything */
+export const createUnpkgBackend: (options?: RegistryBackendOptions) => RegistryBackend
+
+/**
+ * Uses an npm registry, like a private company registry, by downloading the tarball for each package.
+ * The tarballs are gzipped, which uses `DecompressionStream` by default - pass `gunzip` where that
+ * isn't available (e.g. `data => zlib.gunzipSync(data)` in older versions of node.)
+ */
+export const createNPMTarballBackend: (
+  options?: RegistryBackendOptions & { gunzip?: (data: Uint8Array) => Promise<Uint8Array> | Uint8Array }
+) => RegistryBackend
+
+/**
+ * Somewhere to keep the files ATA downloads between sessions. Each method can return
+ * a promise, so async stores like IndexedDB work too.
+ */
+export interface ATACacheStore {
+  getItem(key: string): string | null | undefined | Promise<string | null | undefined>
+  setItem(key: string, value: string): void | Promise<void>
+  keys(): string[] | Promise<string[]>
+  removeItem(key: string): void | Promise<void>
+}
+
+export interface ATACacheOptions {
+  /** How long to trust a tag like "latest" pointing at a version for, in milliseconds. Defaults to a day */
+  tagTTL?: number
+}
+
+/** A package in the cache, for showing what's in there */
+export interface ATACacheEntry {
+  moduleName: string
+  version: string
+  /** How many files there are for this version of the package */
+  files: number
+}
+
+/**
+ * Keeps the versions, file lists and .d.ts files which ATA downloads in a store, so that they don't
+ * need downloading again next time. Files are keyed by `module@version/path`, because they never
+ * change for a version - tags like "latest" are the only thing which expires.
+ */
+export interface ATACache {
+  /** The version a tag pointed to, as long as that was looked up less than `tagTTL` ago */
+  getVersionForTag(moduleName: string, tag: string): Promise<string | undefined>
+  setVersionForTag(moduleName: string, tag: string, version: string): Promise<void>
+  getFileTree(moduleName: string, version: string): Promise<string[] | undefined>
+  setFileTree(moduleName: string, version: string, files: string[]): Promise<void>
+  getFile(moduleName: string, version: string, path: string): Promise<string | undefined>
+  setFile(moduleName: string, version: string, path: string, contents: string): Promise<void>
+  /** Lists the versions of packages which have files in the cache */
+  list(): Promise<ATACacheEntry[]>
+  /** Removes everything from the cache */
+  clear(): Promise<void>
+}
+
+/** Wraps a store with the keys and expiry ATA uses, pass the result to `setupTypeAcquisition` as `cache` */
+export const createATACache: (store: ATACacheStore, options?: ATACacheOptions) => ATACache
+
+/** Makes an `ATACacheStore` which keeps everything in memory, mainly for tests */
+export const createMemoryATACacheStore: () => ATACacheStore
+
+/** The parts of node's fs module which `createFSBackedATACacheStore` uses */
+export interface ATACacheFS {
+  existsSync(path: string): boolean
+  readFileSync(path: string, encoding: "utf8"): string
+  writeFileSync(path: string, data: string, encoding: "utf8"): void
+  mkdirSync(path: string, options: { recursive: true }): unknown
+  readdirSync(path: string): string[]
+  unlinkSync(path: string): void
+}
+
+/**
+ * Makes an `ATACacheStore` which keeps each item as a file in a folder, for use in node.
+ *
+ * @param directory the folder to keep the files in, it is made when the first file is stored
+ * @param fs node's fs module, this is passed in so that ATA can still be bundled for the browser
+ */
+export const createFSBackedATACacheStore: (directory: string, fs: ATACacheFS) => ATACacheStore
+
+/**
+ * Makes an `ATACacheStore` which keeps everything in an IndexedDB database, which can hold
+ * much more than localStorage.
+ *
+ * @param databaseName the name of the IndexedDB database
+ * @param factory an optional replacement for the indexedDB global
+ */
+export const createIndexedDBATACacheStore: (databaseName?: string, factory?: IDBFactory) => ATACacheStore
 
 interface Logger {
   log: (...args: any[]) => void
@@ -0,0 +1,223 @@
+/** A map of module names to the version, range or tag which should be used for them */
+export type VersionPins = Record<string, string>
+
+/** Whether this is a full version like 1.2.3 (or 1.2.3-beta.1) rather than a tag or a range */
+export const isExactVersion = (version: string) => /^v?\d+\.\d+\.\d+(-[\w.-]+)?(\+[\w.-]+)?$/.test(version)
+
+/**
+ * Handles the ranges which show up in package.jsons and typesVersions: comparators like ">=4.2",
+ * caret and tilde ranges, x-ranges like "17.x" or "*", hyphen ranges and "||". Pre-release versions
+ * only match ranges which mention that exact pre-release.
+ */
+export function versionSatisfies(version: string, range: string) {
+  const parsed = parseVersion(version)
+  if (!parsed) return false
+
+  return range.split("||").some(part => {
+    const comparators = expandRange(part.trim())
+    if (!comparators) return false
+
+    const prereleaseAllowed = comparators.some(
+      c => c.version.pre && !c.version.implicit && samePatch(c.version, parsed)
+    )
+    if (parsed.pre && !prereleaseAllowed) return false
+
+    return comparators.every(c => {
+      const diff = compareParsed(parsed, c.version)
+      switch (c.operator) {
+        case "<":
+          return diff < 0
+        case "<=":
+          return diff <= 0
+        case ">":
+          return diff > 0
+        case ">=":
+          return diff >= 0
+        default:
+          return diff === 0
+      }
+    })
+  })
+}
+
+/** The highest version which is in the range, or undefined when none are */
+export const maxSatisfying = (versions: string[], range: string) => {
+  const matching = versions.filter(v => versionSatisfies(v, range))
+  return matching.sort((a, b) => compareParsed(parseVersion(b)!, parseVersion(a)!))[0]
+}
+
+/**
+ * Gets the versions from a package.json, the ranges in `dependencies` win over the ones in
+ * `devDependencies`, `peerDependencies` and `optionalDependencies`. Anything which doesn't come
+ * from the registry (like git URLs or local paths) is skipped. The devDependencies of a package
+ * from npm don't get installed, so they can be left out.
+ */
+export const getVersionPinsFromPackageJSON = (
+  packageJSON: string | undefined,
+  includeDevDependencies = true
+): VersionPins => {
+  let pkg: Record<string, unknown> = {}
+  try {
+    pkg = packageJSON ? JSON.parse(packageJSON) : {}
+  } catch (error) {
+    return {}
+  }
+
+  const pins: VersionPins = {}
+  const fields = ["optionalDependencies", "peerDependencies", "devDependencies", "dependencies"]
+  for (const field of fields) {
+    if (field === "devDependencies" && !includeDevDependencies) continue
+    const dependencies = pkg[field]
+    if (!dependencies || typeof dependencies !== "object") continue
+
+    for (const [name, range] of Object.entries(dependencies as Record<string, unknown>)) {
+      if (typeof range === "string" && isRegistryRange(range)) pins[name] = range.trim() || "latest"
+    }
+  }
+  return pins
+}
+
+/**
+ * Gets the versions from `// @types:` lines at the top of a file, e.g.
+ *
+ *   // @types: react@17.0.2 react-dom@^17
+ *   // @types: @types/node@16
+ *
+ * Names without a version are left alone, because they are the `types` compiler flag in twoslash.
+ */
+export const getVersionPinsFromHeader = (code: string): VersionPins => {
+  const pins: VersionPins = {}
+  const lines = code.split("\n")
+
+  for (const line of lines) {
+    const trimmed = line.trim()
+    // The header ends at the first line of code
+    if (trimmed && !trimmed.startsWith("//")) break
+
+    const match = trimmed.match(/^\/\/\s?@types:\s?(.+)$/)
+    if (!match) continue
+
+    for (const entry of match[1]!.split(/[\s,]+/)) {
+      const at = entry.lastIndexOf("@")
+      if (at > 0) pins[entry.slice(0, at)] = entry.slice(at + 1)
+    }
+  }
+  return pins
+}
+
+/** Implicit versions are the upper bounds which come from expanding ranges like ^1.2.3 */
+type ParsedVersion = { parts: [number, number, number]; pre: string | undefined; implicit?: true }
+type Comparator = { operator: string; version: ParsedVersion }
+
+function parseVersion(version: string): ParsedVersion | undefined {
+  const match = version.trim().match(/^v?(\d+)\.(\d+)\.(\d+)(?:-([\w.-]+))?(?:\+[\w.-]+)?$/)
+  if (!match) return undefined
+  return { parts: [Number(match[1]), Number(match[2]), Number(match[3])], pre: match[4] }
+}
+
+/** Turns one part of a range (no ||s) into a list of simple comparators, undefined means it couldn't be understood */
+function expandRange(range: string): Comparator[] | undefined {
+  if (range === "" || range === "*" || range === "x") return []
+
+  const hyphen = range.match(/^(\S+)\s+-\s+(\S+)$/)
+  if (hyphen) {
+    const from = parsePartial(hyphen[1]!)
+    const to = parsePartial(hyphen[2]!)
+    if (!from || !to) return undefined
+    return [
+      { operator: ">=", version: from.version },
+      to.missing
+        ? { operator: "<", version: bump(to.version, 3 - to.missing - 1) }
+        : { operator: "<=", version: to.version },
+    ]
+  }
+
+  const comparators: Comparator[] = []
+  for (const token of range.replace(/(<=|>=|<|>|=|\^|~)\s+/g, "$1").split(/\s+/)) {
+    const match = token.match(/^(<=|>=|<|>|=|\^|~>?)?(.*)$/)!
+    const operator = match[1] || ""
+    const partial = parsePartial(match[2]!)
+    if (!partial) return undefined
+    const { version, missing } = partial
+    const [major, minor] = version.parts
+    const known = 3 - missing
+
+    if (operator === "^") {
+      // Can change anything to the right of the first non-zero number
+      const firstNonZero = major !== 0 || known === 1 ? 0 : minor !== 0 || known === 2 ? 1 : 2
+      comparators.push({ operator: ">=", version }, { operator: "<", version: bump(version, firstNonZero) })
+    } else if (operator.startsWith("~")) {
+      comparators.push({ operator: ">=", version }, { operator: "<", version: bump(version, known === 1 ? 0 : 1) })
+    } else if (missing && (operator === "" || operator === "=")) {
+      if (known === 0) continue
+      comparators.push({ operator: ">=", version }, { operator: "<", version: bump(version, known - 1) })
+    } else if (missing && operator === ">") {
+      comparators.push({ operator: ">=", version: bump(version, known - 1) })
+    } else if (missing && operator === "<=") {
+      comparators.push({ operator: "<", version: bump(version, known - 1) })
+    } else {
+      comparators.push({ operator: operator || "=", version })
+    }
+  }
+  return comparators
+}
+
+/** Parses versions which can have parts missing or as x, like 4, 4.2 or 4.x, counting how many were missing */
+function parsePartial(version: string) {
+  const match = version.match(/^v?(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:-([\w.-]+))?(?:\+[\w.-]+)?$/)
+  if (!match) return undefined
+
+  const parts = [match[1], match[2], match[3]]
+  const known = parts.findIndex(p => p === undefined || /^[xX*]$/.test(p))
+  const missing = known === -1 ? 0 : 3 - known
+  const numbers = parts.map((p, i) => (i < 3 - missing ? Number(p) : 0)) as [number, number, number]
+  return { version: { parts: numbers, pre: missing ? undefined : match[4] }, missing }
+}
+
+/** The version where the number at index goes up by one, and everything after it is zero */
+function bump(version: ParsedVersion, index: number): ParsedVersion {
+  const parts = version.parts.map((p, i) => (i < index ? p : i === index ? p + 1 : 0)) as [number, number, number]
+  // A pre-release of the bumped version is still below it, so "<2.0.0-0" keeps 2.0.0-beta out of ^1
+  return { parts, pre: "0", implicit: true }
+}
+
+function samePatch(a: ParsedVersion, b: ParsedVersion) {
+  return a.parts.every((p, i) => p === b.parts[i])
+}
+
+function compareParsed(a: ParsedVersion, b: ParsedVersion) {
+  for (let i = 0; i < 3; i++) {
+    const diff = a.parts[i]! - b.parts[i]!
+    if (diff !== 0) return diff
+  }
+
+  // A pre-release is lower than its release
+  if (a.pre === b.pre) return 0
+  if (a.pre === undefined) return 1
+  if (b.pre === undefined) return -1
+  return comparePrerelease(a.pre, b.pre)
+}
+
+function comparePrerelease(a: string, b: string) {
+  const aParts = a.split(".")
+  const bParts = b.split(".")
+  for (let i = 0; i < Math.max(aParts.length, bParts.length); i++) {
+    const x = aParts[i]
+    const y = bParts[i]
+    if (x === undefined) return -1
+    if (y === undefined) return 1
+    if (x === y) continue
+
+    const xNumber = /^\d+$/.test(x)
+    const yNumber = /^\d+$/.test(y)
+    if (xNumber && yNumber) return Number(x) - Number(y)
+    if (xNumber) return -1
+    if (yNumber) return 1
+    return x < y ? -1 : 1
+  }
+  return 0
+}
+
+function isRegistryRange(range: string) {
+  return !/^(file:|link:|git|github:|http:|https:|workspace:|npm:|\.|\/)/.test(range) && !range.includes("/")
+}
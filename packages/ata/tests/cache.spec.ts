@@ -0,0 +1,177 @@
+import {
+  createATACache,
+  createFSBackedATACacheStore,
+  createIndexedDBATACacheStore,
+  createMemoryATACacheStore,
+  RegistryBackend,
+  setupTypeAcquisition,
+} from "../src/index"
+import * as ts from "typescript"
+import * as fs from "fs"
+import * as os from "os"
+import * as path from "path"
+
+describe(createATACache, () => {
+  afterEach(() => jest.restoreAllMocks())
+
+  it("expires tags after the TTL", async () => {
+    const cache = createATACache(createMemoryATACacheStore(), { tagTTL: 1000 })
+    const now = jest.spyOn(Date, "now").mockReturnValue(5000)
+
+    await cache.setVersionForTag("react", "latest", "17.0.2")
+    now.mockReturnValue(5999)
+    expect(await cache.getVersionForTag("react", "latest")).toEqual("17.0.2")
+    now.mockReturnValue(6000)
+    expect(await cache.getVersionForTag("react", "latest")).toEqual(undefined)
+  })
+
+  it("keys files by module, version and path", async () => {
+    const store = createMemoryATACacheStore()
+    const cache = createATACache(store)
+
+    await cache.setFile("@types/react", "17.0.2", "/index.d.ts", "export {}")
+    expect(await store.keys()).toEqual(["@types/react@17.0.2/index.d.ts"])
+    expect(await cache.getFile("@types/react", "17.0.2", "/index.d.ts")).toEqual("export {}")
+    expect(await cache.getFile("@types/react", "17.0.1", "/index.d.ts")).toEqual(undefined)
+  })
+
+  it("can be listed and cleared", async () => {
+    const store = createMemoryATACacheStore()
+    const cache = createATACache(store)
+
+    await cache.setVersionForTag("@types/react", "latest", "17.0.2")
+    await cache.setFileTree("@types/react", "17.0.2", ["/index.d.ts", "/global.d.ts"])
+    await cache.setFile("@types/react", "17.0.2", "/index.d.ts", "export {}")
+    await cache.setFile("@types/react", "17.0.2", "/global.d.ts", "")
+    await cache.setFile("danger", "10.0.0", "/index.d.ts", "export const a: string")
+
+    expect(await cache.list()).toEqual([
+      { moduleName: "@types/react", version: "17.0.2", files: 2 },
+      { moduleName: "danger", version: "10.0.0", files: 1 },
+    ])
+
+    await cache.clear()
+    expect(await store.keys()).toEqual([])
+  })
+
+  it("keeps going when the store is full", async () => {
+    const store = createMemoryATACacheStore()
+    store.setItem = () => {
+      throw new Error("QuotaExceededError")
+    }
+
+    await expect(createATACache(store).setFile("a", "1.0.0", "/index.d.ts", "")).resolves.toBeUndefined()
+  })
+
+  it("treats a store which can't be read as empty", async () => {
+    const fail = () => Promise.reject(new Error("idb open failed"))
+    const cache = createATACache({ getItem: fail, setItem: fail, keys: fail, removeItem: fail })
+
+    expect(await cache.getVersionForTag("react", "latest")).toEqual(undefined)
+    expect(await cache.getFileTree("react", "17.0.2")).toEqual(undefined)
+    expect(await cache.getFile("react", "17.0.2", "/index.d.ts")).toEqual(undefined)
+    expect(await cache.list()).toEqual([])
+    await expect(cache.clear()).resolves.toBeUndefined()
+  })
+
+  it("treats corrupt entries as misses", async () => {
+    const store = createMemoryATACacheStore()
+    store.setItem("tag:react@latest", "{")
+    store.setItem("tree:react@17.0.2", "[")
+
+    const cache = createATACache(store)
+    expect(await cache.getVersionForTag("react", "latest")).toEqual(undefined)
+    expect(await cache.getFileTree("react", "17.0.2")).toEqual(undefined)
+  })
+})
+
+describe(createIndexedDBATACacheStore, () => {
+  it("only opens the database when it is first used", async () => {
+    const open = jest.fn(() => {
+      const request: { error: Error; onerror?: () => void } = { error: new Error("idb open failed") }
+      setTimeout(() => request.onerror!())
+      return request
+    })
+    const store = createIndexedDBATACacheStore("test", ({ open } as unknown) as IDBFactory)
+    expect(open).not.toHaveBeenCalled()
+
+    const cache = createATACache(store)
+    expect(await cache.getFile("a", "1.0.0", "/index.d.ts")).toEqual(undefined)
+    expect(await cache.list()).toEqual([])
+    expect(open).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe(createFSBackedATACacheStore, () => {
+  it("keeps each item in a file", async () => {
+    const directory = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "ata-cache-")), "cache")
+    const store = createFSBackedATACacheStore(directory, fs)
+    expect(store.keys()).toEqual([])
+
+    store.setItem("@types/react@17.0.2/index.d.ts", "export {}")
+    expect(fs.readdirSync(directory)).toEqual(["%40types%2Freact%4017.0.2%2Findex.d.ts"])
+    expect(store.getItem("@types/react@17.0.2/index.d.ts")).toEqual("export {}")
+    expect(store.keys()).toEqual(["@types/react@17.0.2/index.d.ts"])
+
+    store.removeItem("@types/react@17.0.2/index.d.ts")
+    expect(store.getItem("@types/react@17.0.2/index.d.ts")).toEqual(undefined)
+  })
+})
+
+describe("using a cache with ATA", () => {
+  const createRegistry = () => {
+    const requests: string[] = []
+    const registry: RegistryBackend = {
+      resolveVersion: async (moduleName, reference) => {
+        requests.push(`resolve ${moduleName}@${reference}`)
+        return "1.0.0"
+      },
+      listFiles: async moduleName => {
+        requests.push(`list ${moduleName}`)
+        return ["/package.json", "/index.d.ts"]
+      },
+      fetchFile: async (moduleName, _version, path) => {
+        requests.push(`fetch ${moduleName}${path}`)
+        return path === "/package.json" ? JSON.stringify({ name: moduleName }) : "export declare const a: string"
+      },
+    }
+    return { registry, requests }
+  }
+
+  const runATA = (registry: RegistryBackend, cache: ReturnType<typeof createATACache>, code: string) => {
+    const ata = setupTypeAcquisition({ projectName: "test", typescript: ts, registry, cache, delegate: {} })
+    return ata(code).files
+  }
+
+  it("doesn't download anything on the next session", async () => {
+    const cache = createATACache(createMemoryATACacheStore())
+
+    const first = createRegistry()
+    const firstFiles = await runATA(first.registry, cache, `import { a } from "a"`)
+    expect(first.requests).toEqual(["resolve a@latest", "list a", "fetch a/package.json", "fetch a/index.d.ts"])
+
+    const second = createRegistry()
+    const secondFiles = await runATA(second.registry, cache, `import { a } from "a"`)
+    expect(second.requests).toEqual([])
+    expect(secondFiles).toEqual(firstFiles)
+  })
+
+  it("looks up tags again once they expire", async () => {
+    const cache = createATACache(createMemoryATACacheStore(), { tagTTL: 0 })
+    await runATA(createRegistry().registry, cache, `import { a } from "a"`)
+
+    const second = createRegistry()
+    await runATA(second.registry, cache, `import { a } from "a"`)
+    expect(second.requests).toEqual(["resolve a@latest"])
+  })
+
+  it("downloads everything when the store can't be read", async () => {
+    const fail = () => Promise.reject(new Error("idb open failed"))
+    const cache = createATACache({ getItem: fail, setItem: fail, keys: fail, removeItem: fail })
+
+    const { registry, requests } = createRegistry()
+    const files = await runATA(registry, cache, `import { a } from "a"`)
+    expect(requests).toEqual(["resolve a@latest", "list a", "fetch a/package.json", "fetch a/index.d.ts"])
+    expect(Array.from(files.keys())).toEqual(["/node_modules/a/package.json", "/node_modules/a/index.d.ts"])
+  })
+})
@@ -0,0 +1,176 @@
+import { RegistryBackend, setupTypeAcquisition } from "../src/index"
+import { getDTSEntryPoints, getDTSFileForSubpath, getRelativeDTSReferences } from "../src/entryPoints"
+import * as ts from "typescript"
+
+describe(getDTSEntryPoints, () => {
+  const files = ["/package.json", "/index.d.ts", "/dist/main.d.ts", "/dist/utils.d.ts", "/ts4.0/index.d.ts"]
+
+  it("uses types, typings and main", () => {
+    expect(getDTSEntryPoints(ts, JSON.stringify({ types: "dist/main.d.ts" }), files)).toEqual(["/dist/main.d.ts"])
+    expect(getDTSEntryPoints(ts, JSON.stringify({ typings: "./dist/main" }), files)).toEqual(["/dist/main.d.ts"])
+    expect(getDTSEntryPoints(ts, JSON.stringify({ main: "dist/utils.js" }), files)).toEqual(["/dist/utils.d.ts"])
+  })
+
+  it("falls back to index.d.ts", () => {
+    expect(getDTSEntryPoints(ts, JSON.stringify({ main: "lib/missing.js" }), files)).toEqual(["/index.d.ts"])
+    expect(getDTSEntryPoints(ts, undefined, files)).toEqual(["/index.d.ts"])
+    expect(getDTSEntryPoints(ts, undefined, ["/dist/main.d.ts"])).toEqual([])
+  })
+
+  it("maps through the typesVersions range for this version of TypeScript", () => {
+    const typesVersions = { "<3.9": { "*": ["ts3.9/*"] }, ">=4": { "*": ["ts4.0/*"] } }
+    expect(getDTSEntryPoints(ts, JSON.stringify({ types: "index.d.ts", typesVersions }), files)).toEqual([
+      "/ts4.0/index.d.ts",
+    ])
+
+    const oldOnly = { "<3.9": { "*": ["ts3.9/*"] } }
+    expect(getDTSEntryPoints(ts, JSON.stringify({ types: "index.d.ts", typesVersions: oldOnly }), files)).toEqual([
+      "/index.d.ts",
+    ])
+  })
+
+  it("includes every sub-path in exports, preferring the types condition", () => {
+    const exports = {
+      ".": { types: "./dist/main.d.ts", import: "./dist/main.mjs" },
+      "./utils": { require: "./dist/utils.js", import: "./dist/utils.mjs" },
+      "./package.json": "./package.json",
+    }
+    expect(getDTSEntryPoints(ts, JSON.stringify({ exports }), files)).toEqual([
+      "/index.d.ts",
+      "/dist/main.d.ts",
+      "/dist/utils.d.ts",
+    ])
+  })
+
+  it("includes the jsx-runtime files which TypeScript imports for JSX", () => {
+    const reactFiles = ["/index.d.ts", "/jsx-runtime.d.ts", "/jsx-dev-runtime.d.ts", "/global.d.ts"]
+    expect(getDTSEntryPoints(ts, undefined, reactFiles)).toEqual([
+      "/index.d.ts",
+      "/jsx-runtime.d.ts",
+      "/jsx-dev-runtime.d.ts",
+    ])
+  })
+
+  it("handles wildcard exports", () => {
+    const exports = { "./*": "./dist/*.js" }
+    expect(getDTSEntryPoints(ts, JSON.stringify({ exports }), files)).toEqual([
+      "/index.d.ts",
+      "/dist/main.d.ts",
+      "/dist/utils.d.ts",
+    ])
+  })
+})
+
+describe(getDTSFileForSubpath, () => {
+  it("finds the file for a deep import", () => {
+    const files = ["/index.d.ts", "/fp.d.ts", "/fp/map.d.ts", "/ts4.0/fp.d.ts"]
+    expect(getDTSFileForSubpath(ts, undefined, files, "fp")).toEqual("/fp.d.ts")
+    expect(getDTSFileForSubpath(ts, undefined, files, "fp/map")).toEqual("/fp/map.d.ts")
+    expect(getDTSFileForSubpath(ts, undefined, files, "missing")).toBeUndefined()
+
+    const typesVersions = { ">=4": { "*": ["ts4.0/*"] } }
+    expect(getDTSFileForSubpath(ts, JSON.stringify({ typesVersions }), files, "fp")).toEqual("/ts4.0/fp.d.ts")
+  })
+})
+
+describe(getRelativeDTSReferences, () => {
+  it("finds the relative imports and references in the same package", () => {
+    const files = ["/index.d.ts", "/lib/a.d.ts", "/lib/b/index.d.ts", "/lib/c.d.mts", "/globals.d.ts"]
+    const code = [
+      `/// <reference path="../globals.d.ts" />`,
+      `export * from "./a"`,
+      `export * from "./b"`,
+      `import type { C } from "./c.mjs"`,
+      `import { D } from "other-package"`,
+      `export * from "./missing"`,
+    ].join("\n")
+
+    expect(getRelativeDTSReferences(ts, code, "/lib/index.d.ts", files)).toEqual([
+      "/lib/a.d.ts",
+      "/lib/b/index.d.ts",
+      "/lib/c.d.mts",
+      "/globals.d.ts",
+    ])
+  })
+})
+
+describe("downloading a package", () => {
+  // A package where the types start at dist/index.d.ts, with lots of other .d.ts files which aren't used
+  const files: Record<string, string> = {
+    "/package.json": JSON.stringify({ name: "big", types: "dist/index.d.ts" }),
+    "/dist/index.d.ts": `export * from "./button"\nexport { Theme } from "./theme"`,
+    "/dist/button.d.ts": `import { Theme } from "./theme"\nexport declare const button: (theme: Theme) => void`,
+    "/dist/theme.d.ts": `export type Theme = "dark" | "light"`,
+  }
+  for (let i = 0; i < 20; i++) {
+    files[`/dist/internal/file${i}.d.ts`] = `export declare const internal${i}: number`
+  }
+
+  const downloaded: string[] = []
+  const registry: RegistryBackend = {
+    resolveVersion: async () => "1.0.0",
+    listFiles: async () => Object.keys(files),
+    fetchFile: async (_moduleName, _version, path) => {
+      downloaded.push(path)
+      return files[path] || new Error("Not found")
+    },
+  }
+
+  it("only grabs the files which are reachable from the entry points", async () => {
+    const fsMap = await new Promise<Map<string, string>>(resolve => {
+      const ata = setupTypeAcquisition({
+        projectName: "test",
+        typescript: ts,
+        registry,
+        delegate: { finished: resolve },
+      })
+      ata(`import { button } from "big"`)
+    })
+
+    expect(Array.from(fsMap.keys()).sort()).toEqual([
+      "/node_modules/big/dist/button.d.ts",
+      "/node_modules/big/dist/index.d.ts",
+      "/node_modules/big/dist/theme.d.ts",
+      "/node_modules/big/package.json",
+    ])
+
+    // Grabbing every .d.ts in the package would have been 23 downloads
+    const allDTSFiles = Object.keys(files).filter(f => f.endsWith(".d.ts"))
+    expect(allDTSFiles.length).toEqual(23)
+    expect(downloaded.length).toEqual(4)
+  })
+
+  it("grabs the files for deep imports", async () => {
+    downloaded.length = 0
+    const ata = setupTypeAcquisition({ projectName: "test", typescript: ts, registry, delegate: {} })
+    const fsMap = await ata(`import { internal1 } from "big/dist/internal/file1"`).files
+
+    expect(fsMap.has("/node_modules/big/dist/internal/file1.d.ts")).toBe(true)
+    expect(fsMap.has("/node_modules/big/dist/index.d.ts")).toBe(true)
+
+    // A deep import into a package which was already downloaded only grabs its own files
+    downloaded.length = 0
+    await ata(`import { internal2 } from "big/dist/internal/file2"`).files
+    expect(downloaded).toEqual(["/package.json", "/dist/internal/file2.d.ts"])
+  })
+
+  it("grabs packages which only have .d.mts files", async () => {
+    const esmFiles: Record<string, string> = {
+      "/package.json": JSON.stringify({ name: "esm-only", exports: { types: "./index.d.mts" } }),
+      "/index.d.mts": "export declare const esm: string",
+    }
+    const esmRegistry: RegistryBackend = {
+      resolveVersion: async () => "1.0.0",
+      listFiles: async moduleName => (moduleName === "esm-only" ? Object.keys(esmFiles) : new Error("Not found")),
+      fetchFile: async (_moduleName, _version, path) => esmFiles[path] || new Error("Not found"),
+    }
+
+    const ata = setupTypeAcquisition({ projectName: "test", typescript: ts, registry: esmRegistry, delegate: {} })
+    const fsMap = await ata(`import { esm } from "esm-only"`).files
+
+    expect(Array.from(fsMap.keys())).toEqual([
+      "/node_modules/esm-only/package.json",
+      "/node_modules/esm-only/index.d.mts",
+    ])
+  })
+})
@@ -0,0 +1,163 @@
+import { createJSDelivrBackend, createNPMTarballBackend, createUnpkgBackend, setupTypeAcquisition } from "../src/index"
+import * as ts from "typescript"
+import { gzipSync, gunzipSync } from "zlib"
+import { readFileSync } from "fs"
+import { join } from "path"
+
+/** Makes a fetch which serves the given URLs, like a local mirror would */
+const createFetcher = (routes: Record<string, string | Buffer>) => {
+  const requests: Array<{ url: string; headers: Record<string, string> }> = []
+  const fetcher = async (url: string, init: RequestInit = {}) => {
+    requests.push({ url, headers: init.headers as Record<string, string> })
+    const body = routes[url]
+    return {
+      ok: body !== undefined,
+      json: async () => JSON.parse(body!.toString()),
+      text: async () => body!.toString(),
+      arrayBuffer: async () => new Uint8Array(Buffer.from(body!)).buffer,
+    }
+  }
+  return { fetcher: (fetcher as any) as typeof fetch, requests }
+}
+
+/** Makes a gzipped tarball like `npm pack` does, with every file inside a `package/` folder */
+const pack = (files: Record<string, string>) => {
+  const blocks: Buffer[] = []
+  Object.keys(files).forEach(name => {
+    const contents = Buffer.from(files[name]!)
+    const header = Buffer.alloc(512)
+    header.write("package/" + name, 0)
+    header.write(contents.length.toString(8).padStart(11, "0") + "\0", 124)
+    header.write("0", 156)
+    header.write("ustar\u000000", 257)
+    blocks.push(header, contents, Buffer.alloc((512 - (contents.length % 512)) % 512))
+  })
+  blocks.push(Buffer.alloc(1024))
+  return gzipSync(Buffer.concat(blocks))
+}
+
+describe(createJSDelivrBackend, () => {
+  it("uses the given mirror", async () => {
+    const { fetcher, requests } = createFetcher({
+      "http://mirror/data/resolve/npm/abc@latest": JSON.stringify({ version: "1.0.0" }),
+      "http://mirror/data/npm/abc@1.0.0/flat": JSON.stringify({ files: [{ name: "/index.d.ts" }] }),
+      "http://mirror/cdn/abc@1.0.0/index.d.ts": "export const abc: string",
+    })
+    const registry = createJSDelivrBackend({
+      fetcher,
+      baseURL: "http://mirror/cdn/",
+      dataURL: "http://mirror/data",
+      headers: { "X-Token": "123" },
+    })
+
+    expect(await registry.resolveVersion("abc", "latest")).toEqual("1.0.0")
+    expect(await registry.listFiles("abc", "1.0.0")).toEqual(["/index.d.ts"])
+    expect(await registry.fetchFile("abc", "1.0.0", "/index.d.ts")).toEqual("export const abc: string")
+    expect(await registry.fetchFile("abc", "1.0.0", "/missing.d.ts")).toBeInstanceOf(Error)
+    expect(requests[0]!.headers).toEqual({ "X-Token": "123" })
+  })
+})
+
+describe(createUnpkgBackend, () => {
+  it("handles nested and flat file lists", async () => {
+    const { fetcher } = createFetcher({
+      "https://unpkg.com/abc@latest/package.json": JSON.stringify({ version: "1.0.0" }),
+      "https://unpkg.com/abc@1.0.0/?meta": JSON.stringify({
+        path: "/",
+        type: "directory",
+        files: [
+          { path: "/index.d.ts", type: "file" },
+          { path: "/lib", type: "directory", files: [{ path: "/lib/util.d.ts", type: "file" }] },
+        ],
+      }),
+      "https://unpkg.com/def@2.0.0/?meta": JSON.stringify({ files: [{ path: "/index.d.ts" }] }),
+    })
+    const registry = createUnpkgBackend({ fetcher })
+
+    expect(await registry.resolveVersion("abc", "latest")).toEqual("1.0.0")
+    expect(await registry.listFiles("abc", "1.0.0")).toEqual(["/index.d.ts", "/lib/util.d.ts"])
+    expect(await registry.listFiles("def", "2.0.0")).toEqual(["/index.d.ts"])
+  })
+})
+
+describe(createNPMTarballBackend, () => {
+  const createRegistry = () =>
+    createFetcher({
+      "http://registry/@company%2futils": JSON.stringify({
+        "dist-tags": { latest: "2.0.0" },
+        versions: { "2.0.0": { dist: { tarball: "http://registry/@company/utils/-/utils-2.0.0.tgz" } } },
+      }),
+      "http://registry/@company/utils/-/utils-2.0.0.tgz": pack({
+        "package.json": JSON.stringify({ name: "@company/utils", types: "index.d.ts" }),
+        "index.d.ts": "export declare const util: () => string",
+      }),
+    })
+
+  it("reads the files from the tarball", async () => {
+    const { fetcher, requests } = createRegistry()
+    const registry = createNPMTarballBackend({
+      fetcher,
+      baseURL: "http://registry/",
+      headers: { Authorization: "Bearer 123" },
+      gunzip: data => gunzipSync(data),
+    })
+
+    expect(await registry.resolveVersion("@company/utils", "latest")).toEqual("2.0.0")
+    expect(await registry.resolveVersion("@company/utils", "2.0.0")).toEqual("2.0.0")
+    expect(await registry.resolveVersion("@company/utils", "beta")).toEqual(null)
+    expect(await registry.getTags!("@company/utils")).toEqual({ latest: "2.0.0" })
+
+    expect(await registry.listFiles("@company/utils", "2.0.0")).toEqual(["/package.json", "/index.d.ts"])
+    expect(await registry.fetchFile("@company/utils", "2.0.0", "/index.d.ts")).toEqual(
+      "export declare const util: () => string"
+    )
+
+    // The packument and tarball are only downloaded once, and every request is authorized
+    expect(requests.map(r => r.url)).toEqual([
+      "http://registry/@company%2futils",
+      "http://registry/@company/utils/-/utils-2.0.0.tgz",
+    ])
+    requests.forEach(r => expect(r.headers.Authorization).toEqual("Bearer 123"))
+  })
+
+  // These are the same tarballs as in the tests for @typescript/vfs, which has the tar reader this copies
+  it.each(["gnu", "pax", "ustar"])("reads the long file names in a %s tarball", async format => {
+    const fixture = join(__dirname, "..", "..", "typescript-vfs", "test", "fixtures", `long-names-${format}.tar`)
+    const { fetcher } = createFetcher({
+      "http://registry/long-names": JSON.stringify({
+        "dist-tags": { latest: "1.0.0" },
+        versions: { "1.0.0": { dist: { tarball: "http://registry/long-names/-/long-names-1.0.0.tgz" } } },
+      }),
+      "http://registry/long-names/-/long-names-1.0.0.tgz": readFileSync(fixture),
+    })
+    // The fixtures aren't gzipped
+    const registry = createNPMTarballBackend({ fetcher, baseURL: "http://registry", gunzip: data => data })
+
+    const longName =
+      "/lib/a-folder-with-quite-a-long-name/another-folder-with-quite-a-long-name/a-file-with-a-long-name.d.ts"
+    expect(await registry.listFiles("long-names", "1.0.0")).toEqual(["/index.d.ts", longName, "/package.json"])
+    expect(await registry.fetchFile("long-names", "1.0.0", longName)).toEqual(
+      "/** Café */\nexport declare const long: string\n"
+    )
+  })
+
+  it("can be used for type acquisition", async () => {
+    const { fetcher } = createRegistry()
+    const registry = createNPMTarballBackend({ fetcher, baseURL: "http://registry", gunzip: data => gunzipSync(data) })
+
+    const files = await new Promise<Map<string, string>>(resolve => {
+      const ata = setupTypeAcquisition({
+        projectName: "test",
+        typescript: ts,
+        registry,
+        delegate: { finished: resolve },
+      })
+      ata(`import { util } from "@company/utils"`)
+    })
+
+    expect(Array.from(files.keys()).sort()).toEqual([
+      "/node_modules/@company/utils/index.d.ts",
+      "/node_modules/@company/utils/package.json",
+    ])
+  })
+})
@@ -0,0 +1,130 @@
+import { RegistryBackend, setupTypeAcquisition } from "../src/index"
+import * as ts from "typescript"
+
+/** A registry where every package has one .d.ts file, and nothing downloads until `release` is called */
+const createSlowRegistry = () => {
+  let release = () => {}
+  const gate = new Promise<void>(resolve => (release = resolve))
+  const fetched: string[] = []
+  const signals: Array<AbortSignal | undefined> = []
+
+  const registry: RegistryBackend = {
+    resolveVersion: async () => "1.0.0",
+    listFiles: async () => ["/package.json", "/index.d.ts"],
+    fetchFile: async (moduleName, _version, path, signal) => {
+      fetched.push(moduleName + path)
+      signals.push(signal)
+      await gate
+      return path === "/package.json" ? JSON.stringify({ name: moduleName }) : "export declare const value: string"
+    },
+  }
+
+  return { registry, release, fetched, signals }
+}
+
+const setup = (registry: RegistryBackend) => {
+  const events: string[] = []
+  const ata = setupTypeAcquisition({
+    projectName: "test",
+    typescript: ts,
+    registry,
+    delegate: {
+      started: () => events.push("started"),
+      progress: (downloaded, total) => events.push(`progress ${downloaded}/${total}`),
+      finished: () => events.push("finished"),
+    },
+  })
+  return { ata, events }
+}
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 0))
+
+describe("running ATA", () => {
+  it("resolves with the files", async () => {
+    const { registry, release } = createSlowRegistry()
+    const { ata, events } = setup(registry)
+
+    const run = ata(`import { value } from "a"`)
+    release()
+
+    expect(Array.from((await run.files).keys())).toEqual(["/node_modules/a/package.json", "/node_modules/a/index.d.ts"])
+    expect(events).toEqual(["started", "progress 1/1", "finished"])
+  })
+
+  it("merges runs which overlap", async () => {
+    const { registry, release, fetched } = createSlowRegistry()
+    const { ata, events } = setup(registry)
+
+    const first = ata(`import { value } from "a"`)
+    const second = ata(`import { value } from "a"\nimport { value as b } from "b"`)
+    release()
+
+    const files = await first.files
+    expect(await second.files).toBe(files)
+    expect(files.size).toEqual(4)
+
+    // a only gets downloaded once, and there's one started and finished with the counts for both runs
+    expect(fetched.sort()).toEqual(["a/index.d.ts", "a/package.json", "b/index.d.ts", "b/package.json"])
+    expect(events).toEqual(["started", "progress 2/2", "finished"])
+  })
+
+  it("calls finished but not started when there's nothing to do", async () => {
+    const { registry, release } = createSlowRegistry()
+    const { ata, events } = setup(registry)
+    release()
+
+    await ata(`import { value } from "a"`).files
+    const files = await ata(`import { value } from "a"`).files
+
+    expect(files.size).toEqual(2)
+    expect(events).toEqual(["started", "progress 1/1", "finished", "finished"])
+  })
+})
+
+describe("aborting ATA", () => {
+  const RealAbortController = globalThis.AbortController
+  beforeEach(() => {
+    // Older versions of node don't have an AbortController
+    globalThis.AbortController = class {
+      signal = { aborted: false } as AbortSignal
+      abort() {
+        ;(this.signal as { aborted: boolean }).aborted = true
+      }
+    } as typeof AbortController
+  })
+  afterEach(() => {
+    globalThis.AbortController = RealAbortController
+  })
+
+  it("stops the run and aborts the requests", async () => {
+    const { registry, release, signals } = createSlowRegistry()
+    const { ata, events } = setup(registry)
+
+    const run = ata(`import { value } from "a"`)
+    await tick()
+    run.abort()
+
+    const files = await run.files
+    expect(files.size).toEqual(0)
+    expect(signals.length).toEqual(1)
+    expect(signals[0]!.aborted).toBe(true)
+
+    // The downloads which finish after the abort are thrown away
+    release()
+    await tick()
+    expect(files.size).toEqual(0)
+    expect(events).toEqual([])
+  })
+
+  it("lets a later run download the modules again", async () => {
+    const { registry, release } = createSlowRegistry()
+    const { ata, events } = setup(registry)
+
+    ata(`import { value } from "a"`).abort()
+    release()
+
+    const files = await ata(`import { value } from "a"`).files
+    expect(Array.from(files.keys())).toEqual(["/node_modules/a/package.json", "/node_modules/a/index.d.ts"])
+    expect(events).toEqual(["started", "progress 1/1", "finished"])
+  })
+})
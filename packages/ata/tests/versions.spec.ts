@@ -0,0 +1,247 @@
+import { RegistryBackend, setupTypeAcquisition } from "../src/index"
+import {
+  getVersionPinsFromHeader,
+  getVersionPinsFromPackageJSON,
+  maxSatisfying,
+  versionSatisfies,
+} from "../src/versions"
+import * as ts from "typescript"
+
+describe(versionSatisfies, () => {
+  it("handles comparators and x-ranges", () => {
+    expect(versionSatisfies("4.4.2", ">=4.2")).toBe(true)
+    expect(versionSatisfies("3.8.0", "<3.9")).toBe(true)
+    expect(versionSatisfies("4.0.0", ">=3.1 <4")).toBe(false)
+    expect(versionSatisfies("17.0.2", "17.x")).toBe(true)
+    expect(versionSatisfies("17.0.2", "17.0")).toBe(true)
+    expect(versionSatisfies("18.0.0", "17")).toBe(false)
+    expect(versionSatisfies("1.2.3", "*")).toBe(true)
+  })
+
+  it("handles caret and tilde ranges", () => {
+    expect(versionSatisfies("17.9.0", "^17.0.2")).toBe(true)
+    expect(versionSatisfies("18.0.0", "^17.0.2")).toBe(false)
+    expect(versionSatisfies("0.2.9", "^0.2.3")).toBe(true)
+    expect(versionSatisfies("0.3.0", "^0.2.3")).toBe(false)
+    expect(versionSatisfies("1.2.9", "~1.2.3")).toBe(true)
+    expect(versionSatisfies("1.3.0", "~1.2.3")).toBe(false)
+  })
+
+  it("handles hyphen ranges and ||", () => {
+    expect(versionSatisfies("1.5.0", "1.2.3 - 2")).toBe(true)
+    expect(versionSatisfies("3.0.0", "1.2.3 - 2")).toBe(false)
+    expect(versionSatisfies("16.14.0", "^15 || ^16")).toBe(true)
+  })
+
+  it("only matches pre-releases when the range asks for them", () => {
+    expect(versionSatisfies("18.0.0-rc.1", "^17")).toBe(false)
+    expect(versionSatisfies("18.0.0-rc.1", "*")).toBe(false)
+    expect(versionSatisfies("18.0.0-rc.2", ">=18.0.0-rc.1")).toBe(true)
+  })
+})
+
+describe(maxSatisfying, () => {
+  it("picks the highest matching version", () => {
+    const versions = ["16.14.0", "17.0.1", "17.0.2", "18.0.0-rc.1", "18.2.0"]
+    expect(maxSatisfying(versions, "^17")).toEqual("17.0.2")
+    expect(maxSatisfying(versions, "*")).toEqual("18.2.0")
+    expect(maxSatisfying(versions, "^19")).toEqual(undefined)
+  })
+})
+
+describe(getVersionPinsFromPackageJSON, () => {
+  it("merges the dependency fields, with dependencies winning", () => {
+    const packageJSON = JSON.stringify({
+      dependencies: { react: "^17.0.2", local: "file:../local", fork: "user/repo" },
+      devDependencies: { react: "^16", "@types/react": "17.0.5" },
+      peerDependencies: { "react-dom": "17" },
+    })
+
+    expect(getVersionPinsFromPackageJSON(packageJSON)).toEqual({
+      react: "^17.0.2",
+      "@types/react": "17.0.5",
+      "react-dom": "17",
+    })
+    expect(getVersionPinsFromPackageJSON(packageJSON, false)).toEqual({ react: "^17.0.2", "react-dom": "17" })
+  })
+
+  it("ignores broken JSON", () => {
+    expect(getVersionPinsFromPackageJSON("{")).toEqual({})
+    expect(getVersionPinsFromPackageJSON(undefined)).toEqual({})
+  })
+})
+
+describe(getVersionPinsFromHeader, () => {
+  it("reads the header comments", () => {
+    const code = [
+      "// @types: react@17.0.2, react-dom@^17",
+      "// @types: @types/node@16 jest",
+      "// @strict: true",
+      "",
+      `import React from "react"`,
+      "// @types: ignored@1",
+    ].join("\n")
+
+    expect(getVersionPinsFromHeader(code)).toEqual({
+      react: "17.0.2",
+      "react-dom": "^17",
+      "@types/node": "16",
+    })
+  })
+})
+
+describe("running ATA with pinned versions", () => {
+  // A registry where only @types packages have .d.ts files
+  const versions: Record<string, string[]> = {
+    react: ["16.14.0", "17.0.2", "18.2.0"],
+    "react-dom": ["17.0.2", "18.2.0"],
+    "@types/react": ["16.14.0", "17.0.50", "18.0.1"],
+    "@types/react-dom": ["17.0.17", "18.0.6"],
+  }
+  const dependencies: Record<string, Record<string, string>> = {
+    "@types/react-dom@17.0.17": { "@types/react": "^17" },
+  }
+
+  const createRegistry = () => {
+    const resolved: string[] = []
+    const registry: RegistryBackend = {
+      resolveVersion: async (moduleName, reference) => {
+        const available = versions[moduleName] || []
+        const version = reference === "latest" ? available[available.length - 1] : maxSatisfying(available, reference)
+        resolved.push(`${moduleName}@${reference} -> ${version}`)
+        return version || null
+      },
+      listFiles: async moduleName =>
+        moduleName.startsWith("@types/") ? ["/package.json", "/index.d.ts"] : ["/package.json", "/index.js"],
+      fetchFile: async (moduleName, version, path) => {
+        if (path === "/package.json") {
+          return JSON.stringify({ name: moduleName, version, dependencies: dependencies[`${moduleName}@${version}`] })
+        }
+        const imports = moduleName === "@types/react-dom" ? `import * as React from "react"\n` : ""
+        return `${imports}export declare const version: "${version}"`
+      },
+    }
+    return { registry, resolved }
+  }
+
+  const runATA = (registry: RegistryBackend, code: string, packageJSON?: string) => {
+    const ata = setupTypeAcquisition({ projectName: "test", typescript: ts, registry, delegate: {} })
+    return ata(code, { packageJSON }).files
+  }
+
+  const versionsIn = (files: Map<string, string>) =>
+    Array.from(files.keys())
+      .filter(f => f.endsWith("package.json"))
+      .map(f => {
+        const { name, version } = JSON.parse(files.get(f)!)
+        return `${name}@${version}`
+      })
+      .sort()
+
+  it("uses the versions from a package.json", async () => {
+    const { registry } = createRegistry()
+    const packageJSON = JSON.stringify({ dependencies: { react: "^16" } })
+    const files = await runATA(registry, `import React from "react"`, packageJSON)
+
+    expect(versionsIn(files)).toEqual(["@types/react@16.14.0"])
+  })
+
+  it("uses the versions from the header over the package.json", async () => {
+    const { registry } = createRegistry()
+    const packageJSON = JSON.stringify({ dependencies: { react: "^16" } })
+    const files = await runATA(registry, `// @types: react@17\nimport React from "react"`, packageJSON)
+
+    expect(versionsIn(files)).toEqual(["@types/react@17.0.50"])
+  })
+
+  it("can pin the @types package directly", async () => {
+    const { registry, resolved } = createRegistry()
+    const files = await runATA(registry, `// @types: @types/react@^18\nimport React from "react"`)
+
+    expect(versionsIn(files)).toEqual(["@types/react@18.0.1"])
+    expect(resolved).toEqual(["react@latest -> 18.2.0", "@types/react@^18 -> 18.0.1"])
+  })
+
+  it("keeps the packages imported by other packages on versions which they depend on", async () => {
+    const { registry } = createRegistry()
+    const files = await runATA(registry, `// @types: react-dom@17\nimport ReactDOM from "react-dom"`)
+
+    // Without the pin from @types/react-dom, react would be on 18
+    expect(versionsIn(files)).toEqual(["@types/react-dom@17.0.17", "@types/react@17.0.50"])
+  })
+
+  it("downloads a module again when its pin changes", async () => {
+    const { registry } = createRegistry()
+    const ata = setupTypeAcquisition({ projectName: "test", typescript: ts, registry, delegate: {} })
+
+    await ata(`// @types: react@16\nimport React from "react"`).files
+    const files = await ata(`// @types: react@17\nimport React from "react"`).files
+    expect(files.get("/node_modules/@types/react/index.d.ts")).toEqual(`export declare const version: "17.0.50"`)
+  })
+
+  describe("when a pin changes", () => {
+    // Version 1.0.0 of "a" has a file which 2.0.0, the latest, doesn't, and "b" imports "a"
+    const setup = () => {
+      const registry: RegistryBackend = {
+        resolveVersion: async (_moduleName, reference) => (reference === "latest" ? "2.0.0" : reference),
+        listFiles: async (_moduleName, version) =>
+          version === "1.0.0" ? ["/package.json", "/index.d.ts", "/old.d.ts"] : ["/package.json", "/index.d.ts"],
+        fetchFile: async (moduleName, version, path) => {
+          if (path === "/package.json") return JSON.stringify({ name: moduleName, version, types: "index.d.ts" })
+          if (moduleName === "b") return `export * from "a"`
+          if (path === "/old.d.ts") return "export declare const old: string"
+          return version === "1.0.0" ? `export * from "./old"` : `export declare const version: "${version}"`
+        },
+      }
+      const removed: string[] = []
+      const ata = setupTypeAcquisition({
+        projectName: "test",
+        typescript: ts,
+        registry,
+        delegate: { removedFile: path => removed.push(path) },
+      })
+      return { ata, removed }
+    }
+
+    it("removes the files from the old version", async () => {
+      const { ata, removed } = setup()
+      await ata(`// @types: a@1.0.0\nimport { a } from "a"`).files
+      const files = await ata(`// @types: a@2.0.0\nimport { a } from "a"`).files
+
+      expect(Array.from(files.keys()).sort()).toEqual(["/node_modules/a/index.d.ts", "/node_modules/a/package.json"])
+      expect(files.get("/node_modules/a/index.d.ts")).toEqual(`export declare const version: "2.0.0"`)
+      expect(removed.sort()).toEqual([
+        "/node_modules/a/index.d.ts",
+        "/node_modules/a/old.d.ts",
+        "/node_modules/a/package.json",
+      ])
+    })
+
+    it("downloads the default version again when the pin is removed", async () => {
+      const { ata, removed } = setup()
+      await ata(`// @types: a@1.0.0\nimport { a } from "a"`).files
+      const files = await ata(`import { a } from "a"`).files
+
+      expect(Array.from(files.keys()).sort()).toEqual(["/node_modules/a/index.d.ts", "/node_modules/a/package.json"])
+      expect(files.get("/node_modules/a/index.d.ts")).toEqual(`export declare const version: "2.0.0"`)
+      expect(removed).toContain("/node_modules/a/old.d.ts")
+    })
+
+    it("downloads the pinned version when a pin is added", async () => {
+      const { ata } = setup()
+      await ata(`import { a } from "a"`).files
+      const files = await ata(`// @types: a@1.0.0\nimport { a } from "a"`).files
+
+      expect(files.get("/node_modules/a/index.d.ts")).toEqual(`export * from "./old"`)
+      expect(files.has("/node_modules/a/old.d.ts")).toBe(true)
+    })
+
+    it("keeps the pinned version when a dependency imports it without a pin", async () => {
+      const { ata } = setup()
+      await ata(`import { a } from "a" // types: 1.0.0`).files
+      const files = await ata(`import { a } from "a" // types: 1.0.0\nimport { b } from "b"`).files
+
+      expect(files.get("/node_modules/a/index.d.ts")).toEqual(`export * from "./old"`)
+    })
+  })
+})
@@ -63,6 +63,13 @@ const go = async () => {
       console.log(`\n> ${chalk.bold.red(err.path)}\n`);
       err.error.stack = undefined;
       console.log(err.error.message);
+
+      // TwoslashErrors can describe how to fix the code sample
+      const fix = err.error.suggestedFix;
+      if (fix) {
+        const where = fix.line === undefined ? "at the top" : `on line ${fix.line}`;
+        console.log(`${chalk.bold("Suggested fix")} ${where}: ${fix.text}`);
+      }
     });
     console.log("\n\n");
 
@@ -5,7 +5,7 @@ import { showErrors } from "./showErrors"
 import { optionsPlugin } from "./plugins"
 import { showASTPlugin } from "./ast"
 import { runPlugin } from "./runtime"
-import { LocalStorageOption } from "../ds/createDesignSystem"
+import { DesignSystem, LocalStorageOption } from "../ds/createDesignSystem"
 
 export const getPlaygroundPlugins = (): PluginFactory[] => {
   const defaults = []
@@ -94,6 +94,35 @@ export const settingsPlugin: PluginFactory = (i, utils) => {
 
       ds.subtitle(i("play_settings_tabs_settings"))
       ds.showOptionList(uiPlugins, { style: "separated", requireRestart: true })
+
+      const cache = sandbox.ataCache
+      if (cache) {
+        ds.subtitle(i("play_settings_ata_cache"))
+        ds.p(i("play_settings_ata_cache_copy"))
+        const cacheDS = ds.createSubDesignSystem() as DesignSystem
+
+        const showCache = () =>
+          cache
+            .list()
+            .then(entries => {
+              cacheDS.clear()
+              if (!entries.length) {
+                cacheDS.p(i("play_settings_ata_cache_empty"))
+                return
+              }
+
+              cacheDS.code(entries.map(e => `${e.moduleName}@${e.version} - ${e.files} files`).join("\n"))
+              cacheDS.button({
+                label: i("play_settings_ata_cache_clear"),
+                onclick: () => cache.clear().then(showCache),
+              })
+            })
+            .catch(error => {
+              console.error("Problem reading the ATA cache")
+              console.error(error)
+            })
+        showCache()
+      }
     },
   }
 
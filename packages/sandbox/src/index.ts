@@ -10,7 +10,7 @@ import { supportedReleases } from "./release_data"
 import { getInitialCode } from "./getInitialCode"
 import { extractTwoSlashCompilerOptions, twoslashCompletions } from "./twoslashSupport"
 import * as tsvfs from "./vendor/typescript-vfs"
-import { setupTypeAcquisition } from "./vendor/ata/index"
+import { setupTypeAcquisition, createATACache, createIndexedDBATACacheStore } from "./vendor/ata/index"
 
 type CompilerOptions = import("monaco-editor").languages.typescript.CompilerOptions
 type Monaco = typeof import("monaco-editor")
@@ -188,6 +188,18 @@ export const createTypeScriptSandbox = (
     config.logger.log(`[ATA] Adding ${path} to runtime`, { code })
   }
 
+  const removeLibraryFromRuntime = (_path: string) => {
+    const path = "file://" + _path
+    const extraLibs = defaults.getExtraLibs()
+    defaults.setExtraLibs(
+      Object.keys(extraLibs)
+        .filter(filePath => filePath !== path)
+        .map(filePath => ({ filePath, content: extraLibs[filePath].content }))
+    )
+    monaco.editor.getModel(monaco.Uri.file(path))?.dispose()
+    config.logger.log(`[ATA] Removing ${path} from runtime`)
+  }
+
   const getTwoSlashCompilerOptions = extractTwoSlashCompilerOptions(ts)
 
   // Auto-complete twoslash comments
@@ -201,12 +213,17 @@ export const createTypeScriptSandbox = (
     )
   }
 
+  // Keeps the types from ATA between visits, IndexedDB isn't always available (e.g. some private browsing modes)
+  const ataCache = typeof indexedDB !== "undefined" ? createATACache(createIndexedDBATACacheStore()) : undefined
+
   const ata = setupTypeAcquisition({
     projectName: "TypeScript Playground",
     typescript: ts,
     logger: console,
+    cache: ataCache,
     delegate: {
       receivedFile: addLibraryToRuntime,
+      removedFile: removeLibraryFromRuntime,
       progress: (downloaded: number, total: number) => {
         // console.log({ dl, ttl })
       },
@@ -453,6 +470,10 @@ export const createTypeScriptSandbox = (
     filepath: filePath.path,
     /** Adds a file to the vfs used by the editor */
     addLibraryToRuntime,
+    /** Removes a file from the vfs used by the editor */
+    removeLibraryFromRuntime,
+    /** The cache of the types which type acquisition has downloaded, when the browser supports it */
+    ataCache,
   }
 }
 
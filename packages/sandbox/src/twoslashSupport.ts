@@ -36,6 +36,8 @@ export const extractTwoSlashCompilerOptions = (ts: TS) => {
           setOption(match[1], "true", options, optMap)
         }
       } else if ((match = valuedConfigRegexp.exec(line))) {
+        // `// @types: react@17` pins a version for ATA, rather than setting the types compiler option
+        if (match[1] === "types" && /\S@/.test(match[2])) return
         if (optMap.has(match[1].toLowerCase())) {
           setOption(match[1], match[2], options, optMap)
         }
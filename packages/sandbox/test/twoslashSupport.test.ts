@@ -47,4 +47,23 @@ fn(42)
       }
     `)
   })
+
+  it("leaves version pins for ATA alone", () => {
+    const sandbox = sandboxMock(`
+// @types: react@17.0.2 react-dom@^17
+// @types: node
+// @target: ES2015
+
+import React from "react"
+`)
+    const compilerOptions = extractTwoSlashCompilerOptions(sandbox.ts)(sandbox.getText())
+    expect(compilerOptions).toMatchInlineSnapshot(`
+      Object {
+        "target": 2,
+        "types": Array [
+          "node",
+        ],
+      }
+    `)
+  })
 })
@@ -0,0 +1,47 @@
+#!/usr/bin/env node
+// @ts-check
+
+// Checks that the `// @errors:` tags in the twoslash code samples of markdown files match the
+// errors which the compiler raises. Pass --fix to re-write the files with the correct tags.
+//
+//   twoslash-errors [--fix] [files]
+
+const fs = require("fs")
+const { fixTwoslashErrorsInMarkdown } = require("../dist/index.js")
+
+const args = process.argv.slice(2)
+const shouldFix = args.includes("--fix")
+const files = args.filter(a => a !== "--fix")
+
+if (!files.length) {
+  console.log("Usage: twoslash-errors [--fix] [files]")
+  process.exit(1)
+}
+
+let needsChanges = false
+let hasFailures = false
+
+for (const file of files) {
+  const markdown = fs.readFileSync(file, "utf8")
+  const result = fixTwoslashErrorsInMarkdown(markdown)
+
+  for (const change of result.changes) {
+    const before = change.before.length ? change.before.join(" ") : "(none)"
+    const after = change.after.length ? change.after.join(" ") : "(none)"
+    console.log(`${file}:${change.line + 1} - // @errors: ${before} -> ${after}`)
+  }
+
+  for (const failure of result.failures) {
+    console.log(`${file}:${failure.line + 1} - could not be fixed: ${failure.error.title}`)
+    hasFailures = true
+  }
+
+  if (result.changes.length) {
+    needsChanges = true
+    if (shouldFix) fs.writeFileSync(file, result.markdown, "utf8")
+  }
+}
+
+if (hasFailures || (needsChanges && !shouldFix)) {
+  process.exitCode = 1
+}
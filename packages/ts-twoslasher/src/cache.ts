@@ -0,0 +1,152 @@
+import { twoslasher, TwoSlashOptions, TwoSlashReturn } from "./"
+
+type TS = typeof import("typescript")
+
+/** Somewhere to keep serialised results, this is the same shape as `localStorage` so that can be used in a browser */
+export type TwoslashCacheStore = Pick<Storage, "getItem" | "setItem">
+
+export interface TwoslashCacheOptions {
+  /** Where to keep the results, defaults to an in-memory store. See `createFSBackedCacheStore` for an on-disk one */
+  store?: TwoslashCacheStore
+}
+
+export interface TwoslashCache {
+  /** Runs twoslash, or returns the result from a previous run with the same sample, options and TypeScript version */
+  twoslasher: (code: string, extension: string, options?: TwoSlashOptions) => TwoSlashReturn
+  /** How often the cache has been used */
+  stats: {
+    /** Runs which came from the cache */
+    hits: number
+    /** Runs which had to call twoslash, and were then stored */
+    misses: number
+    /** Runs which could not be cached, see `createTwoslashCache` for when this happens */
+    skipped: number
+  }
+}
+
+/**
+ * Creates a cache for twoslash results. The key for each result is made from the code, extension,
+ * handbook options, compiler options, custom tags, the TypeScript version and the contents of
+ * the `fsMap` - so editing a lib file in the `fsMap` will cause a re-run.
+ *
+ * Samples which can't be represented by a key are always re-run: ones with `customTransformers`,
+ * and ones which use `emit` because they need to edit the `fsMap`.
+ *
+ * Twoslash writes each sample's files into the `fsMap`, so the cache runs it on a copy of the `fsMap`.
+ * This keeps the key for a sample from depending on the samples which ran before it.
+ *
+ * When twoslash is using your local file system (e.g. no `fsMap`) then changes to `node_modules`
+ * are not noticed, so you will need to clear the store yourself when those change.
+ *
+ * @param cacheOptions Options for where to store results
+ */
+export function createTwoslashCache(cacheOptions: TwoslashCacheOptions = {}): TwoslashCache {
+  const store = cacheOptions.store || createMemoryCacheStore()
+  const stats = { hits: 0, misses: 0, skipped: 0 }
+
+  const cachedTwoslasher = (code: string, extension: string, options: TwoSlashOptions = {}) => {
+    if (options.customTransformers || options.defaultOptions?.emit || emitRegexp.test(code)) {
+      stats.skipped++
+      return twoslasher(code, extension, options)
+    }
+
+    const ts: TS = options.tsModule ?? require("typescript")
+    const key = getTwoslashCacheKey(code, extension, options, ts.version)
+
+    const existing = store.getItem(key)
+    if (existing) {
+      stats.hits++
+      return JSON.parse(existing) as TwoSlashReturn
+    }
+
+    stats.misses++
+    const fsMap = options.fsMap && new Map(options.fsMap)
+    const result = twoslasher(code, extension, { ...options, fsMap })
+    store.setItem(key, JSON.stringify(result))
+    return result
+  }
+
+  return { twoslasher: cachedTwoslasher, stats }
+}
+
+const emitRegexp = /^\/\/\s?@emit\s*$/m
+
+/** A store which keeps the results in a Map, these only live as long as the process */
+export function createMemoryCacheStore(): TwoslashCacheStore {
+  const map = new Map<string, string>()
+  return {
+    getItem: key => map.get(key) ?? null,
+    setItem: (key, value) => {
+      map.set(key, value)
+    },
+  }
+}
+
+/**
+ * A store which keeps each result as a JSON file in a folder, so they can be re-used between builds.
+ *
+ * @param directory The folder to put the results in, it will be created if it does not exist
+ */
+export function createFSBackedCacheStore(directory: string): TwoslashCacheStore {
+  const pa = "pa"
+  const path = require(pa + "th") as typeof import("path")
+  const f = "f"
+  const fs = require(f + "s") as typeof import("fs")
+
+  const pathForKey = (key: string) => path.join(directory, key + ".json")
+
+  return {
+    getItem: key => {
+      const file = pathForKey(key)
+      return fs.existsSync(file) ? fs.readFileSync(file, "utf8") : null
+    },
+    setItem: (key, value) => {
+      fs.mkdirSync(directory, { recursive: true })
+      fs.writeFileSync(pathForKey(key), value)
+    },
+  }
+}
+
+/**
+ * Gets the key which a sample's results are stored under
+ *
+ * @param code The twoslash markup'd code
+ * @param extension For example: "ts", "tsx", "typescript", "javascript" or "js".
+ * @param options The options the sample will be ran with
+ * @param tsVersion The version of TypeScript which will run the sample
+ */
+export function getTwoslashCacheKey(code: string, extension: string, options: TwoSlashOptions, tsVersion: string) {
+  const fsMapHashes: string[] = []
+  if (options.fsMap) {
+    Array.from(options.fsMap.keys())
+      .sort()
+      .forEach(name => fsMapHashes.push(name + ":" + hash(options.fsMap!.get(name)!)))
+  }
+
+  const keyParts = {
+    code,
+    extension,
+    tsVersion,
+    defaultOptions: options.defaultOptions,
+    defaultCompilerOptions: options.defaultCompilerOptions,
+    customTags: options.customTags,
+    vfsRoot: options.fsMap ? undefined : options.vfsRoot,
+    fsMap: hash(fsMapHashes.join("\n")),
+  }
+
+  return hash(JSON.stringify(keyParts))
+}
+
+/** A fast non-cryptographic string hash (cyrb53), returned as 16 hex characters */
+function hash(str: string) {
+  let h1 = 0xdeadbeef
+  let h2 = 0x41c6ce57
+  for (let i = 0; i < str.length; i++) {
+    const ch = str.charCodeAt(i)
+    h1 = Math.imul(h1 ^ ch, 2654435761)
+    h2 = Math.imul(h2 ^ ch, 1597334677)
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909)
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909)
+  return (h2 >>> 0).toString(16).padStart(8, "0") + (h1 >>> 0).toString(16).padStart(8, "0")
+}
@@ -0,0 +1,117 @@
+import { twoslasher, TwoSlashOptions, TwoslashError } from "./"
+
+/** A change to the `// @errors:` tag of one code sample */
+export interface TwoslashErrorsChange {
+  /** The line in the original markdown where the code sample's fence starts */
+  line: number
+  /** The error codes in the `// @errors:` tag before the fix */
+  before: number[]
+  /** The error codes the sample actually raises, an empty array means the tag was removed */
+  after: number[]
+}
+
+export interface TwoslashErrorsFixResult {
+  /** The markdown with all of the `// @errors:` tags updated */
+  markdown: string
+  /** Each code sample which had its `// @errors:` tag changed */
+  changes: TwoslashErrorsChange[]
+  /** Code samples which could not be fixed because twoslash raised a different error */
+  failures: { line: number; error: TwoslashError }[]
+}
+
+const fenceStartRegexp = /^(\s*)```(\w+) twoslash/
+const fenceEndRegexp = /^\s*```\s*$/
+const errorsTagRegexp = /^\s*\/\/ @errors: (.*)$/
+const skipsErrorsRegexp = /^\/\/\s?@(noErrors|noErrorValidation)(: true)?\s*$/m
+
+/**
+ * Runs every twoslash code sample in a markdown file, and re-writes the `// @errors:` tags
+ * so that they match the errors which the compiler raises. This adds, removes and re-orders
+ * the error codes, and will add or remove the whole tag when needed. Samples with `// @noErrors`
+ * or `// @noErrorValidation` are skipped.
+ *
+ * @param markdown The markdown file's contents
+ * @param options Additional options for twoslash
+ */
+export function fixTwoslashErrorsInMarkdown(markdown: string, options: TwoSlashOptions = {}): TwoslashErrorsFixResult {
+  let lines = markdown.split("\n")
+  const changes: TwoslashErrorsChange[] = []
+  const failures: TwoslashErrorsFixResult["failures"] = []
+  // How many lines have been added by fixes, so lines can be reported in the original markdown
+  let addedLines = 0
+
+  for (let i = 0; i < lines.length; i++) {
+    const fenceStart = fenceStartRegexp.exec(lines[i])
+    if (!fenceStart) continue
+
+    const indent = fenceStart[1]
+    const extension = fenceStart[2]
+    const fenceLine = i
+    const originalLine = i - addedLines
+
+    let end = i + 1
+    while (end < lines.length && !fenceEndRegexp.test(lines[end])) end++
+
+    const codeLines = lines.slice(i + 1, end)
+    i = end
+
+    const code = codeLines.map(l => l.slice(indent.length)).join("\n")
+    // Samples which turn off checking their errors are left alone
+    if (skipsErrorsRegexp.test(code)) continue
+
+    const errorsTagIndex = codeLines.findIndex(l => errorsTagRegexp.test(l))
+    const before = errorsTagIndex === -1 ? [] : parseErrorCodes(errorsTagRegexp.exec(codeLines[errorsTagIndex])![1])
+
+    let after: number[]
+    try {
+      after = getRaisedErrorCodes(code, extension, options)
+    } catch (error) {
+      if (!(error instanceof TwoslashError)) throw error
+      failures.push({ line: originalLine, error })
+      continue
+    }
+
+    if (before.join(" ") === after.join(" ")) continue
+    changes.push({ line: originalLine, before, after })
+
+    const newTag = indent + "// @errors: " + after.join(" ")
+    if (errorsTagIndex === -1) {
+      codeLines.unshift(newTag)
+    } else if (after.length) {
+      codeLines[errorsTagIndex] = newTag
+    } else {
+      codeLines.splice(errorsTagIndex, 1)
+    }
+
+    // Swap the sample's code for the fixed version, and carry on from after its fence
+    lines = lines.slice(0, fenceLine + 1).concat(codeLines, lines.slice(end))
+    addedLines += codeLines.length - (end - fenceLine - 1)
+    i = fenceLine + codeLines.length + 1
+  }
+
+  return { markdown: lines.join("\n"), changes, failures }
+}
+
+const parseErrorCodes = (codes: string) => codes.split(" ").filter(Boolean).map(Number)
+
+/**
+ * Gets the codes for all the errors in the sample, by running it without an `// @errors:` tag and
+ * using the fix from the validation error.
+ */
+function getRaisedErrorCodes(code: string, extension: string, options: TwoSlashOptions) {
+  const codeWithoutErrors = code
+    .split("\n")
+    .filter(l => !errorsTagRegexp.test(l))
+    .join("\n")
+
+  const defaultOptions = { ...options.defaultOptions, noErrorValidation: false }
+  try {
+    twoslasher(codeWithoutErrors, extension, { ...options, defaultOptions })
+    return []
+  } catch (error) {
+    if (error instanceof TwoslashError && error.kind === "unexpected-errors" && error.suggestedFix) {
+      return parseErrorCodes(errorsTagRegexp.exec(error.suggestedFix.text)![1])
+    }
+    throw error
+  }
+}
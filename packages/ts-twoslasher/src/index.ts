@@ -9,11 +9,31 @@ type LZ = typeof import("lz-string")
 type TS = typeof import("typescript")
 type CompilerOptions = import("typescript").CompilerOptions
 type CustomTransformers = import("typescript").CustomTransformers
-
-import { parsePrimitive, cleanMarkdownEscaped, typesToExtension, getIdentifierTextSpans, getClosestWord } from "./utils"
+type System = import("typescript").System
+
+import {
+  parsePrimitive,
+  cleanMarkdownEscaped,
+  typesToExtension,
+  getIdentifierTextSpans,
+  getClosestWord,
+  findLineInCode,
+  getOriginalLineNumbers,
+} from "./utils"
 import { validateInput, validateCodeForErrors } from "./validation"
+import { createSourceToEmitMapper } from "./sourcemap"
+
+import {
+  createSystem,
+  createVirtualTypeScriptEnvironment,
+  createVirtualCompilerHost,
+  createFSBackedSystem,
+  VirtualTypeScriptEnvironment,
+} from "@typescript/vfs"
 
-import { createSystem, createVirtualTypeScriptEnvironment, createFSBackedSystem } from "@typescript/vfs"
+export * from "./matrix"
+export * from "./fix"
+export * from "./cache"
 
 const log = shouldDebug ? console.log : (_message?: any, ..._optionalParams: any[]) => ""
 
@@ -40,6 +60,8 @@ type PartialQueryResults = {
   kind: "query"
   text: string
   docs: string | undefined
+  displayParts?: QueryDisplayPart[]
+  jsDocTags?: QueryJSDocTag[]
   line: number
   offset: number
   file: string
@@ -48,6 +70,7 @@ type PartialQueryResults = {
 type PartialCompletionResults = {
   kind: "completions"
   completions: import("typescript").CompletionEntry[]
+  completionsDetails?: import("typescript").CompletionEntryDetails[]
   completionPrefix: string
 
   line: number
@@ -55,7 +78,68 @@ type PartialCompletionResults = {
   file: string
 }
 
-type HighlightPosition = TwoSlashReturn["highlights"][number]
+type HighlightPosition = Omit<TwoSlashReturn["highlights"][number], "originalLine">
+type ErrorPosition = Omit<TwoSlashReturn["errors"][number], "originalLine">
+type AnnotationPosition = TwoSlashReturn["annotations"][number]
+
+/** A token from the compiler's quick info, the kind comes from ts.SymbolDisplayPartKind e.g. "keyword", "punctuation" or "interfaceName" */
+export type QueryDisplayPart = {
+  kind: string
+  text: string
+}
+
+/** A JSDoc tag like `@param` or `@deprecated` attached to a queried identifier */
+export type QueryJSDocTag = {
+  name: string
+  text: string | undefined
+}
+
+/** The types of TwoslashError, so that tools can handle them without reading the message */
+export type TwoslashErrorKind =
+  | "unknown"
+  | "typo"
+  | "unexpected-errors"
+  | "invalid-compiler-flag"
+  | "invalid-compiler-value"
+  | "unknown-extension"
+  | "invalid-query"
+  | "invalid-completion"
+  | "missing-source-file"
+  | "missing-emit-file"
+
+/** A compiler diagnostic which caused a TwoslashError, with positions inside the file it came from */
+export type TwoslashErrorDiagnostic = {
+  code: number
+  /** The full message, including any chained messages */
+  message: string
+  /** The name of the file which raised the diagnostic, undefined for ambient errors */
+  filename: string | undefined
+  /** The index in the file after the twoslash commands were removed */
+  start: number | undefined
+  length: number | undefined
+  /** The line in the original code sample */
+  line: number | undefined
+  /** The character on that line */
+  character: number | undefined
+}
+
+/** A change to the original code sample which would fix the TwoslashError */
+export type TwoslashErrorFix = {
+  /** A human readable version of the change */
+  description: string
+  /** The line in the original sample to replace, undefined means the text should be added as the first line */
+  line: number | undefined
+  /** The new text for that line */
+  text: string
+}
+
+export type TwoslashErrorDetails = {
+  kind?: TwoslashErrorKind
+  line?: number
+  column?: number
+  diagnostics?: TwoslashErrorDiagnostic[]
+  suggestedFix?: TwoslashErrorFix
+}
 
 export class TwoslashError extends Error {
   public title: string
@@ -63,7 +147,24 @@ export class TwoslashError extends Error {
   public recommendation: string
   public code: string | undefined
 
-  constructor(title: string, description: string, recommendation: string, code?: string | undefined) {
+  /** What went wrong, this is "unknown" for errors which don't declare their kind */
+  public kind: TwoslashErrorKind
+  /** The line in the original code sample which caused the error, when it is known */
+  public line: number | undefined
+  /** The character on that line, when it is known */
+  public column: number | undefined
+  /** The compiler diagnostics which caused the error */
+  public diagnostics: TwoslashErrorDiagnostic[]
+  /** A change to the code sample which could fix the error */
+  public suggestedFix: TwoslashErrorFix | undefined
+
+  constructor(
+    title: string,
+    description: string,
+    recommendation: string,
+    code?: string | undefined,
+    details: TwoslashErrorDetails = {}
+  ) {
     let message = `
 ## ${title}
 
@@ -78,16 +179,32 @@ ${description}
     }
 
     super(message)
+    // Extending Error loses the prototype when compiling to ES5, which breaks `instanceof TwoslashError`
+    Object.setPrototypeOf(this, TwoslashError.prototype)
+
     this.title = title
     this.description = description
     this.recommendation = recommendation
     this.code = code
+
+    this.kind = details.kind || "unknown"
+    this.line = details.line
+    this.column = details.column
+    this.diagnostics = details.diagnostics || []
+    this.suggestedFix = details.suggestedFix
   }
 }
 
-function filterHighlightLines(codeLines: string[]): { highlights: HighlightPosition[]; queries: QueryPosition[] } {
+function filterHighlightLines(
+  codeLines: string[]
+): {
+  highlights: HighlightPosition[]
+  queries: QueryPosition[]
+  annotations: AnnotationPosition[]
+} {
   const highlights: HighlightPosition[] = []
   const queries: QueryPosition[] = []
+  const annotations: AnnotationPosition[] = []
 
   let nextContentOffset = 0
   let contentOffset = 0
@@ -113,6 +230,8 @@ function filterHighlightLines(codeLines: string[]): { highlights: HighlightPosit
       moveForward()
     } else {
       const highlightMatch = /^\s*\/\/\s*\^+( .+)?$/.exec(line)
+      const annotationMatch = /^\s*\/\/\s*\^+ explain: (.+)$/.exec(line)
+      const annotateTagMatch = /^\s*\/\/\s?@annotate: (.+)$/.exec(line)
       const queryMatch = /^\s*\/\/\s*\^\?\s*$/.exec(line)
       // https://regex101.com/r/2yDsRk/1
       const removePrettierIgnoreMatch = /^\s*\/\/ prettier-ignore$/.exec(line)
@@ -122,6 +241,31 @@ function filterHighlightLines(codeLines: string[]): { highlights: HighlightPosit
         const start = line.indexOf("^")
         queries.push({ kind: "query", offset: start, text: undefined, docs: undefined, line: i + removedLines - 1 })
         stripLine("having a query")
+      } else if (annotationMatch !== null) {
+        const start = line.indexOf("^")
+        const length = line.lastIndexOf("^") - start + 1
+        annotations.push({
+          text: annotationMatch[1].trim(),
+          start: start + contentOffset,
+          length,
+          line: i - 1,
+          character: start,
+        })
+
+        stripLine("having an annotation")
+      } else if (annotateTagMatch !== null) {
+        // Annotates all of the code on the line below it, which moves up to this index once it is stripped
+        const next = codeLines[i + 1] || ""
+        const indent = next.length - next.replace(/^\s+/, "").length
+        annotations.push({
+          text: annotateTagMatch[1].trim(),
+          start: nextContentOffset + indent,
+          length: next.trim().length,
+          line: i,
+          character: indent,
+        })
+
+        stripLine("having an annotate tag")
       } else if (highlightMatch !== null) {
         const start = line.indexOf("^")
         const length = line.lastIndexOf("^") - start + 1
@@ -131,7 +275,7 @@ function filterHighlightLines(codeLines: string[]): { highlights: HighlightPosit
           offset: start + contentOffset,
           length,
           text: description,
-          line: i + removedLines - 1,
+          line: i - 1,
           start,
         })
 
@@ -148,7 +292,7 @@ function filterHighlightLines(codeLines: string[]): { highlights: HighlightPosit
       }
     }
   }
-  return { highlights, queries }
+  return { highlights, queries, annotations }
 }
 
 function getOptionValueFromMap(name: string, key: string, optMap: Map<string, string>) {
@@ -160,7 +304,9 @@ function getOptionValueFromMap(name: string, key: string, optMap: Map<string, st
     throw new TwoslashError(
       `Invalid inline compiler value`,
       `Got ${key} for ${name} but it is not a supported value by the TS compiler.`,
-      `Allowed values: ${keys.join(",")}`
+      `Allowed values: ${keys.join(",")}`,
+      undefined,
+      { kind: "invalid-compiler-value" }
     )
   }
   return result
@@ -201,7 +347,9 @@ function setOption(name: string, value: string, opts: CompilerOptions, ts: TS) {
   throw new TwoslashError(
     `Invalid inline compiler flag`,
     `There isn't a TypeScript compiler flag called '${name}'.`,
-    `This is likely a typo, you can check all the compiler flags in the TSConfig reference, or check the additional Twoslash flags in the npm page for @typescript/twoslash.`
+    `This is likely a typo, you can check all the compiler flags in the TSConfig reference, or check the additional Twoslash flags in the npm page for @typescript/twoslash.`,
+    undefined,
+    { kind: "invalid-compiler-flag" }
   )
 }
 
@@ -210,23 +358,39 @@ const booleanConfigRegexp = /^\/\/\s?@(\w+)$/
 // https://regex101.com/r/8B2Wwh/1
 const valuedConfigRegexp = /^\/\/\s?@(\w+):\s?(.+)$/
 
-function filterCompilerOptions(codeLines: string[], defaultCompilerOptions: CompilerOptions, ts: TS) {
+function filterCompilerOptions(
+  codeLines: string[],
+  defaultCompilerOptions: CompilerOptions,
+  ts: TS,
+  originalCode: string
+) {
   const options = { ...defaultCompilerOptions }
   for (let i = 0; i < codeLines.length;) {
     let match
-    if ((match = booleanConfigRegexp.exec(codeLines[i]))) {
-      options[match[1]] = true
-      setOption(match[1], "true", options, ts)
-    } else if ((match = valuedConfigRegexp.exec(codeLines[i]))) {
-      // Skip a filename tag, which should propagate through this stage
-      if (match[1] === "filename") {
+    try {
+      if ((match = booleanConfigRegexp.exec(codeLines[i]))) {
+        options[match[1]] = true
+        setOption(match[1], "true", options, ts)
+      } else if ((match = valuedConfigRegexp.exec(codeLines[i]))) {
+        // Skip a filename or annotate tag, which should propagate through this stage
+        if (match[1] === "filename" || match[1] === "annotate") {
+          i++
+          continue
+        }
+        // `// @types: react@17` pins a version for ATA, like in the playground, rather than setting the types option
+        if (match[1] !== "types" || !/\S@/.test(match[2])) setOption(match[1], match[2], options, ts)
+      } else {
         i++
         continue
       }
-      setOption(match[1], match[2], options, ts)
-    } else {
-      i++
-      continue
+    } catch (error) {
+      // Point the error at the flag in the original code sample
+      if (error instanceof TwoslashError && error.line === undefined) {
+        const position = findLineInCode(originalCode, codeLines[i])
+        error.line = position?.line
+        error.column = position?.column
+      }
+      throw error
     }
     codeLines.splice(i, 1)
   }
@@ -269,6 +433,8 @@ export interface ExampleOptions {
   emit: boolean
   /** Declare that you don't need to validate that errors have corresponding annotations, defaults to false */
   noErrorValidation: boolean
+  /** Include the full details for completions, and the kind-tagged display parts and JSDoc tags for queries, defaults to false */
+  detailedQueries: boolean
 }
 
 // Keys in this object are used to filter out handbook options
@@ -282,6 +448,7 @@ const defaultHandbookOptions: Partial<ExampleOptions> = {
   noStaticSemanticInfo: false,
   emit: false,
   noErrorValidation: false,
+  detailedQueries: false,
 }
 
 function filterHandbookOptions(codeLines: string[]): ExampleOptions {
@@ -326,8 +493,10 @@ export interface TwoSlashReturn {
     kind: "highlight"
     /** The index of the text in the file */
     start: number
-    /** What line is the highlighted identifier on? */
+    /** What line is the highlighted identifier on? This is the line inside its `// @filename:` file */
     line: number
+    /** What line is the highlighted identifier on in the whole sample, across all of its files */
+    originalLine: number
     /** At what index in the line does the caret represent  */
     offset: number
     /** The text of the token which is highlighted */
@@ -373,6 +542,12 @@ export interface TwoSlashReturn {
     completions?: import("typescript").CompletionEntry[]
     /* Completion prefix e.g. the letters before the cursor in the word so you can filter */
     completionsPrefix?: string
+    /** The full details for each of the completions, only included with `detailedQueries` */
+    completionsDetails?: import("typescript").CompletionEntryDetails[]
+    /** The query's text split into tokens with their kind, e.g. "keyword" or "localName", only included with `detailedQueries` */
+    displayParts?: QueryDisplayPart[]
+    /** The JSDoc tags for the queried identifier, only included with `detailedQueries` */
+    jsDocTags?: QueryJSDocTag[]
   }[]
 
   /** The extracted twoslash commands for any custom tags passed in via customTags */
@@ -393,12 +568,52 @@ export interface TwoSlashReturn {
     code: number
     start: number | undefined
     length: number | undefined
+    /** The line which the error is on inside its `// @filename:` file */
     line: number | undefined
+    /** The line which the error is on in the whole sample, across all of its files */
+    originalLine: number | undefined
     character: number | undefined
   }[]
 
   /** The URL for this sample in the playground */
   playgroundURL: string
+
+  /**
+   * Explanations attached to a span of code via `// ^^^ explain: `, or to the line below an `// @annotate: `,
+   * these can be shown like errors
+   */
+  annotations: {
+    /** The text after the `explain: ` or `@annotate: ` */
+    text: string
+    /** The index of the text in the file */
+    start: number
+    /** The length of the underlined span */
+    length: number
+    /** What line is the underlined span on? */
+    line: number
+    /** The character on the line */
+    character: number
+  }[]
+
+  /** The code split into each of its `// @filename:` files, with all positions being relative to that file */
+  files: {
+    /** The name of the file, from the `// @filename: ` comment */
+    filename: string
+    /** The code for only this file */
+    code: string
+    /** The extension of the file, taken from its name */
+    extension: string
+    /** Highlights in the file */
+    highlights: TwoSlashReturn["highlights"]
+    /** LSP queries in the file */
+    queries: TwoSlashReturn["queries"]
+    /** LSP responses for identifiers in the file */
+    staticQuickInfos: TwoSlashReturn["staticQuickInfos"]
+    /** Diagnostic error messages in the file */
+    errors: TwoSlashReturn["errors"]
+    /** Annotations in the file */
+    annotations: TwoSlashReturn["annotations"]
+  }[]
 }
 
 export interface TwoSlashOptions {
@@ -428,6 +643,20 @@ export interface TwoSlashOptions {
 
   /** A set of known `// @[tags]` tags to extract and not treat as a comment */
   customTags?: string[]
+
+  /**
+   * An optional DocumentRegistry (from `ts.createDocumentRegistry()`) which is shared between runs, so
+   * that lib files are only parsed once. See `createTwoslasher` for a simpler way to use this.
+   */
+  documentRegistry?: import("typescript").DocumentRegistry
+}
+
+/** The virtual file-system and language service which a code sample is checked in */
+interface TwoslashEnvironment {
+  /** The files in the virtual file-system, this is the `fsMap` when one was passed in */
+  fsMap: Map<string, string>
+  system: System
+  env: VirtualTypeScriptEnvironment
 }
 
 /**
@@ -439,6 +668,25 @@ export interface TwoSlashOptions {
  * @param options Additional options for twoslash
  */
 export function twoslasher(code: string, extension: string, options: TwoSlashOptions = {}): TwoSlashReturn {
+  return runTwoslasher(code, extension, options)
+}
+
+/**
+ * Lets a run re-use the environment from an earlier run with the same compiler options, this is how
+ * `createTwoslasher` shares work between samples. It must return an environment without any of the files
+ * from earlier runs, or call `createEnvironment` to make a new one.
+ */
+type GetEnvironment = (
+  compilerOptions: CompilerOptions,
+  createEnvironment: (fsMap?: Map<string, string>) => TwoslashEnvironment
+) => TwoslashEnvironment
+
+function runTwoslasher(
+  code: string,
+  extension: string,
+  options: TwoSlashOptions,
+  getEnvironment?: GetEnvironment
+): TwoSlashReturn {
   const ts: TS = options.tsModule ?? require("typescript")
   const lzstring: LZ = options.lzstringModule ?? require("lz-string")
 
@@ -464,7 +712,7 @@ export function twoslasher(code: string, extension: string, options: TwoSlashOpt
 
   let tags: TwoSlashReturn["tags"] = options.customTags ? filterCustomTags(codeLines, options.customTags) : []
   const handbookOptions = { ...filterHandbookOptions(codeLines), ...options.defaultOptions }
-  const compilerOptions = filterCompilerOptions(codeLines, defaultCompilerOptions, ts)
+  const compilerOptions = filterCompilerOptions(codeLines, defaultCompilerOptions, ts, originalCode)
 
   // Handle special casing the lookup for when using jsx preserve which creates .jsx files
   if (!handbookOptions.showEmittedFile) {
@@ -481,18 +729,32 @@ export function twoslasher(code: string, extension: string, options: TwoSlashOpt
 
   // In a browser we want to DI everything, in node we can use local infra
   const useFS = !!options.fsMap
-  const vfs = useFS && options.fsMap ? options.fsMap : new Map<string, string>()
-  const system = useFS ? createSystem(vfs) : createFSBackedSystem(vfs, getRoot(), ts)
   const fsRoot = useFS ? "/" : getRoot() + "/"
 
-  const env = createVirtualTypeScriptEnvironment(system, [], ts, compilerOptions, options.customTransformers)
+  const createEnvironment = (fsMap = options.fsMap): TwoslashEnvironment => {
+    const vfs = useFS && fsMap ? fsMap : new Map<string, string>()
+    const system = useFS ? createSystem(vfs) : createFSBackedSystem(vfs, getRoot(), ts)
+    const env = createVirtualTypeScriptEnvironment(
+      system,
+      [],
+      ts,
+      compilerOptions,
+      options.customTransformers,
+      options.documentRegistry
+    )
+    return { fsMap: vfs, system, env }
+  }
+
+  const { system, env } = getEnvironment ? getEnvironment(compilerOptions, createEnvironment) : createEnvironment()
   const ls = env.languageService
 
   code = codeLines.join("\n")
 
   let partialQueries = [] as (PartialQueryResults | PartialCompletionResults)[]
   let queries = [] as TwoSlashReturn["queries"]
-  let highlights = [] as TwoSlashReturn["highlights"]
+  let highlights = [] as HighlightPosition[]
+  let annotations = [] as TwoSlashReturn["annotations"]
+  const markersByFile = new Map<string, { highlights: HighlightPosition[]; annotations: AnnotationPosition[] }>()
 
   const nameContent = splitTwoslashCodeInfoFiles(code, defaultFileName, fsRoot)
   const sourceFiles = ["js", "jsx", "ts", "tsx"]
@@ -515,13 +777,21 @@ export function twoslasher(code: string, extension: string, options: TwoSlashOpt
     env.createFile(filename, newFileCode)
 
     const updates = filterHighlightLines(codeLines)
-    highlights = highlights.concat(updates.highlights)
+    markersByFile.set(filename, { highlights: updates.highlights, annotations: updates.annotations })
 
     // ------ Do the LSP lookup for the queries
 
     const lspedQueries = updates.queries.map((q, i) => {
       const sourceFile = env.getSourceFile(filename)!
       const position = ts.getPositionOfLineAndCharacter(sourceFile, q.line, q.offset)
+
+      // Finds the query's identifier in the original code sample, for pointing errors at it
+      const getOriginalPosition = () => {
+        const fileLines = newFileCode.split("\n")
+        const found = findLineInCode(originalCode, fileLines[q.line], fileLines[q.line + 1])
+        return { line: found?.line, column: found ? q.offset : undefined }
+      }
+
       switch (q.kind) {
         case "query": {
           const quickInfo = ls.getQuickInfoAtPosition(filename, position)
@@ -530,14 +800,28 @@ export function twoslasher(code: string, extension: string, options: TwoSlashOpt
           let text: string
           let docs: string | undefined
 
+          let displayParts: QueryDisplayPart[] | undefined
+          let jsDocTags: QueryJSDocTag[] | undefined
+
           if (quickInfo && quickInfo.displayParts) {
             text = quickInfo.displayParts.map(dp => dp.text).join("")
             docs = quickInfo.documentation ? quickInfo.documentation.map(d => d.text).join("<br/>") : undefined
+
+            if (handbookOptions.detailedQueries) {
+              displayParts = quickInfo.displayParts.map(dp => ({ kind: dp.kind, text: dp.text }))
+              // Older versions of TypeScript use a string for the tag's text
+              jsDocTags = (quickInfo.tags || []).map(tag => ({
+                name: tag.name,
+                text: typeof tag.text === "string" || !tag.text ? tag.text : ts.displayPartsToString(tag.text),
+              }))
+            }
           } else {
             throw new TwoslashError(
               `Invalid QuickInfo query`,
               `The request on line ${q.line} in ${filename} for quickinfo via ^? returned no from the compiler.`,
-              `This is likely that the x positioning is off.`
+              `This is likely that the x positioning is off.`,
+              undefined,
+              { kind: "invalid-query", ...getOriginalPosition() }
             )
           }
 
@@ -545,6 +829,8 @@ export function twoslasher(code: string, extension: string, options: TwoSlashOpt
             kind: "query",
             text,
             docs,
+            displayParts,
+            jsDocTags,
             line: q.line - i,
             offset: q.offset,
             file: filename,
@@ -558,7 +844,9 @@ export function twoslasher(code: string, extension: string, options: TwoSlashOpt
             throw new TwoslashError(
               `Invalid completion query`,
               `The request on line ${q.line} in ${filename} for completions via ^| returned no completions from the compiler.`,
-              `This is likely that the positioning is off.`
+              `This is likely that the positioning is off.`,
+              undefined,
+              { kind: "invalid-completion", ...getOriginalPosition() }
             )
           }
 
@@ -566,9 +854,27 @@ export function twoslasher(code: string, extension: string, options: TwoSlashOpt
           const prefix = sourceFile.text.slice(word.startPos, position)
           const lastDot = prefix.split(".").pop() || ""
 
+          // Grabbing the details for every completion is slow, so it's opt-in
+          const completionsDetails = handbookOptions.detailedQueries
+            ? (completions?.entries || [])
+                .map(entry =>
+                  ls.getCompletionEntryDetails(
+                    filename,
+                    position - 1,
+                    entry.name,
+                    undefined,
+                    entry.source,
+                    {},
+                    entry.data
+                  )
+                )
+                .filter((details): details is import("typescript").CompletionEntryDetails => !!details)
+            : undefined
+
           const queryResult: PartialCompletionResults = {
             kind: "completions",
             completions: completions?.entries || [],
+            completionsDetails,
             completionPrefix: lastDot,
             line: q.line - i,
             offset: q.offset,
@@ -590,6 +896,25 @@ export function twoslasher(code: string, extension: string, options: TwoSlashOpt
   filterHighlightLines(allCodeLines)
   code = allCodeLines.join("\n")
 
+  // Highlights and annotations are found per-file, so move them into the coordinates of the whole sample
+  markersByFile.forEach((markers, file) => {
+    const source = env.sys.readFile(file)!
+    const fileContentStartIndexInModifiedFile = code.indexOf(source) == -1 ? 0 : code.indexOf(source)
+    const linesAbove = code.slice(0, fileContentStartIndexInModifiedFile).split("\n").length - 1
+
+    markers.highlights.forEach(highlight => {
+      highlight.offset += fileContentStartIndexInModifiedFile
+      highlight.line += linesAbove
+      highlights.push(highlight)
+    })
+
+    markers.annotations.forEach(annotation => {
+      annotation.start += fileContentStartIndexInModifiedFile
+      annotation.line += linesAbove
+      annotations.push(annotation)
+    })
+  })
+
   // Lets fs changes propagate back up to the fsMap
   if (handbookOptions.emit) {
     filenames.forEach(f => {
@@ -629,87 +954,105 @@ export function twoslasher(code: string, extension: string, options: TwoSlashOpt
       throw new TwoslashError(
         `Could not find a  TypeScript sourcefile for '${file}' in the Twoslash vfs`,
         `It's a little hard to provide useful advice on this error. Maybe you imported something which the compiler doesn't think is a source file?`,
-        ``
+        ``,
+        undefined,
+        { kind: "missing-source-file" }
       )
     }
 
     // Get all of the interesting quick info popover
-    if (!handbookOptions.showEmit) {
-      const fileContentStartIndexInModifiedFile = code.indexOf(source) == -1 ? 0 : code.indexOf(source)
-      const linesAbove = code.slice(0, fileContentStartIndexInModifiedFile).split("\n").length - 1
-
-      // Get all interesting identifiers in the file, so we can show hover info for it
-      const identifiers = handbookOptions.noStaticSemanticInfo ? [] : getIdentifierTextSpans(ts, sourceFile)
-      for (const identifier of identifiers) {
-        const span = identifier.span
-        const quickInfo = ls.getQuickInfoAtPosition(file, span.start)
-
-        if (quickInfo && quickInfo.displayParts) {
-          const text = quickInfo.displayParts.map(dp => dp.text).join("")
-          const targetString = identifier.text
-          const docs = quickInfo.documentation ? quickInfo.documentation.map(d => d.text).join("\n") : undefined
-
-          // Get the position of the
-          const position = span.start + fileContentStartIndexInModifiedFile
-          // Use TypeScript to pull out line/char from the original code at the position + any previous offset
-          const burnerSourceFile = ts.createSourceFile("_.ts", code, ts.ScriptTarget.ES2015)
-          const { line, character } = ts.getLineAndCharacterOfPosition(burnerSourceFile, position)
-
-          staticQuickInfos.push({ text, docs, start: position, length: span.length, line, character, targetString })
-        }
+    const fileContentStartIndexInModifiedFile = code.indexOf(source) == -1 ? 0 : code.indexOf(source)
+    const linesAbove = code.slice(0, fileContentStartIndexInModifiedFile).split("\n").length - 1
+
+    // Get all interesting identifiers in the file, so we can show hover info for it
+    const identifiers = handbookOptions.noStaticSemanticInfo ? [] : getIdentifierTextSpans(ts, sourceFile)
+    for (const identifier of identifiers) {
+      const span = identifier.span
+      const quickInfo = ls.getQuickInfoAtPosition(file, span.start)
+
+      if (quickInfo && quickInfo.displayParts) {
+        const text = quickInfo.displayParts.map(dp => dp.text).join("")
+        const targetString = identifier.text
+        const docs = quickInfo.documentation ? quickInfo.documentation.map(d => d.text).join("\n") : undefined
+
+        // Get the position of the
+        const position = span.start + fileContentStartIndexInModifiedFile
+        // Use TypeScript to pull out line/char from the original code at the position + any previous offset
+        const burnerSourceFile = ts.createSourceFile("_.ts", code, ts.ScriptTarget.ES2015)
+        const { line, character } = ts.getLineAndCharacterOfPosition(burnerSourceFile, position)
+
+        staticQuickInfos.push({ text, docs, start: position, length: span.length, line, character, targetString })
       }
+    }
 
-      // Offset the queries for this file because they are based on the line for that one
-      // specific file, and not the global twoslash document. This has to be done here because
-      // in the above loops, the code for queries/highlights/etc hasn't been stripped yet.
-      partialQueries
-        .filter((q: any) => q.file === file)
-        .forEach(q => {
-          const pos =
-            ts.getPositionOfLineAndCharacter(sourceFile, q.line, q.offset) + fileContentStartIndexInModifiedFile
-
-          switch (q.kind) {
-            case "query": {
-              queries.push({
-                docs: q.docs,
-                kind: "query",
-                start: pos + fileContentStartIndexInModifiedFile,
-                length: q.text.length,
-                text: q.text,
-                offset: q.offset,
-                line: q.line + linesAbove + 1,
-              })
-              break
-            }
-            case "completions": {
-              queries.push({
-                completions: q.completions,
-                kind: "completions",
-                start: pos + fileContentStartIndexInModifiedFile,
-                completionsPrefix: q.completionPrefix,
-                length: 1,
-                offset: q.offset,
-                line: q.line + linesAbove + 1,
-              })
-            }
+    // Offset the queries for this file because they are based on the line for that one
+    // specific file, and not the global twoslash document. This has to be done here because
+    // in the above loops, the code for queries/highlights/etc hasn't been stripped yet.
+    partialQueries
+      .filter((q: any) => q.file === file)
+      .forEach(q => {
+        const pos = ts.getPositionOfLineAndCharacter(sourceFile, q.line, q.offset) + fileContentStartIndexInModifiedFile
+
+        switch (q.kind) {
+          case "query": {
+            queries.push({
+              docs: q.docs,
+              displayParts: q.displayParts,
+              jsDocTags: q.jsDocTags,
+              kind: "query",
+              start: pos,
+              length: q.text.length,
+              text: q.text,
+              offset: q.offset,
+              line: q.line + linesAbove + 1,
+            })
+            break
           }
-        })
-    }
+          case "completions": {
+            queries.push({
+              completions: q.completions,
+              kind: "completions",
+              start: pos,
+              completionsPrefix: q.completionPrefix,
+              completionsDetails: q.completionsDetails,
+              length: 1,
+              offset: q.offset,
+              line: q.line + linesAbove + 1,
+            })
+          }
+        }
+      })
   })
 
   const relevantErrors = errs.filter(e => e.file && filenames.includes(e.file.fileName))
 
   // A validator that error codes are mentioned, so we can know if something has broken in the future
   if (!handbookOptions.noErrorValidation && relevantErrors.length) {
-    validateCodeForErrors(relevantErrors, handbookOptions, extension, originalCode, fsRoot)
+    // The diagnostics are in the files after the twoslash commands were removed, so they get mapped back onto the sample
+    const cleanedOriginalCode = cleanMarkdownEscaped(originalCode)
+    const getOriginalPosition = (diagnostic: import("typescript").Diagnostic) => {
+      if (!diagnostic.file || diagnostic.start === undefined) return undefined
+
+      const { line, character } = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start)
+      const name = diagnostic.file.fileName.replace(fsRoot, "")
+      const header = cleanedOriginalCode
+        .split(/\r\n?|\n/g)
+        .findIndex(l => l.includes("// @filename: ") && l.split("// @filename: ")[1].trim() === name)
+
+      const originalLine = getOriginalLineNumbers(cleanedOriginalCode, diagnostic.file.text, header + 1)[line]
+      return originalLine === undefined ? undefined : { line: originalLine, character }
+    }
+
+    validateCodeForErrors(ts, relevantErrors, handbookOptions, extension, originalCode, fsRoot, getOriginalPosition)
   }
 
-  let errors: TwoSlashReturn["errors"] = []
+  let errors: ErrorPosition[] = []
 
   // We can't pass the ts.DiagnosticResult out directly (it can't be JSON.stringified)
   for (const err of relevantErrors) {
     const codeWhereErrorLives = env.sys.readFile(err.file!.fileName)!
     const fileContentStartIndexInModifiedFile = code.indexOf(codeWhereErrorLives)
+    const linesAbove = code.slice(0, fileContentStartIndexInModifiedFile).split("\n").length - 1
     const renderedMessage = ts.flattenDiagnosticMessageText(err.messageText, "\n")
     const id = `err-${err.code}-${err.start}-${err.length}`
     const { line, character } = ts.getLineAndCharacterOfPosition(err.file!, err.start!)
@@ -719,13 +1062,49 @@ export function twoslasher(code: string, extension: string, options: TwoSlashOpt
       code: err.code,
       length: err.length,
       start: err.start ? err.start + fileContentStartIndexInModifiedFile : undefined,
-      line,
+      line: line + linesAbove,
       character,
       renderedMessage,
       id,
     })
   }
 
+  // Source maps are used to move the queries and highlights onto the emitted code. The emit which is shown uses
+  // the sample's own compiler options, so the maps come from a separate program which only turns them on
+  const getEmitSourceMap = (emitSource: string, emittedFileName: string) => {
+    const program = ls.getProgram()!
+    const programOptions = program.getCompilerOptions()
+    const mapOptions: CompilerOptions = {
+      ...programOptions,
+      sourceMap: true,
+      inlineSourceMap: false,
+      declarationMap: !!(programOptions.declaration || programOptions.composite),
+      sourceRoot: undefined,
+      mapRoot: undefined,
+    }
+
+    // The files which were already parsed for the language service are re-used
+    const { compilerHost } = createVirtualCompilerHost(system, mapOptions, ts)
+    const mapProgram = ts.createProgram({
+      rootNames: program.getRootFileNames(),
+      options: mapOptions,
+      host: {
+        ...compilerHost,
+        getSourceFile: (fileName, ...args) =>
+          program.getSourceFile(fileName) ?? compilerHost.getSourceFile(fileName, ...args),
+      },
+      oldProgram: program,
+    })
+
+    let sourceMap: { name: string; text: string } | undefined
+    const writeFile = (name: string, text: string) => {
+      if (name === emittedFileName + ".map") sourceMap = { name, text }
+    }
+    const targetSourceFile = compilerOptions.outFile ? undefined : mapProgram.getSourceFile(emitSource)
+    mapProgram.emit(targetSourceFile, writeFile, undefined, undefined, options.customTransformers)
+    return sourceMap
+  }
+
   // Handle emitting files
   if (handbookOptions.showEmit) {
     // Get the file which created the file we want to show:
@@ -741,7 +1120,9 @@ export function twoslasher(code: string, extension: string, options: TwoSlashOpt
       throw new TwoslashError(
         `Could not find source file to show the emit for`,
         `Cannot find the corresponding **source** file  ${emitFilename} for completions via ^| returned no quickinfo from the compiler.`,
-        `Looked for: ${emitSourceFilename} in the vfs - which contains: ${allFiles}`
+        `Looked for: ${emitSourceFilename} in the vfs - which contains: ${allFiles}`,
+        undefined,
+        { kind: "missing-emit-file" }
       )
     }
 
@@ -760,18 +1141,91 @@ export function twoslasher(code: string, extension: string, options: TwoSlashOpt
       throw new TwoslashError(
         `Cannot find the output file in the Twoslash VFS`,
         `Looking for ${handbookOptions.showEmittedFile} in the Twoslash vfs after compiling`,
-        `Looked for" ${fsRoot + handbookOptions.showEmittedFile} in the vfs - which contains ${allFiles}.`
+        `Looked for" ${fsRoot + handbookOptions.showEmittedFile} in the vfs - which contains ${allFiles}.`,
+        undefined,
+        { kind: "missing-emit-file" }
       )
     }
 
+    const sourceMap = getEmitSourceMap(emitSource!, file.name)
+    const sourceCode = code
+
     code = file.text
     extension = file.name.split(".").pop()!
 
-    // Remove highlights and queries, because it won't work across transpiles,
-    // though I guess source-mapping could handle the transition
-    highlights = []
-    partialQueries = []
-    staticQuickInfos = []
+    if (sourceMap) {
+      // Move everything which points at the source files onto the emitted code, dropping
+      // anything which doesn't have a place in the emit
+      const mapSourceToEmit = createSourceToEmitMapper(sourceMap.name, sourceMap.text)
+      const emitLines = code.split("\n")
+      const sourcePositions = filenames
+        .filter(f => env.getSourceFile(f))
+        .map(f => ({ file: f, sourceFile: env.getSourceFile(f)!, start: sourceCode.indexOf(env.sys.readFile(f)!) }))
+        .filter(f => f.start !== -1)
+
+      const mapToEmit = (position: number) => {
+        const source = sourcePositions.find(f => position >= f.start && position <= f.start + f.sourceFile.text.length)
+        if (!source) return undefined
+
+        const sourceLocation = ts.getLineAndCharacterOfPosition(source.sourceFile, position - source.start)
+        const emitted = mapSourceToEmit(source.file, sourceLocation.line, sourceLocation.character)
+        if (!emitted || emitted.line >= emitLines.length || emitted.character > emitLines[emitted.line].length) {
+          return undefined
+        }
+
+        const start = emitLines.slice(0, emitted.line).join("\n").length + (emitted.line ? 1 : 0) + emitted.character
+        return { start, line: emitted.line, character: emitted.character }
+      }
+
+      // Quick infos have to point at the same identifier in the emit, as it can be renamed
+      staticQuickInfos = staticQuickInfos.filter(info => {
+        const emitted = mapToEmit(info.start)
+        if (!emitted || code.slice(emitted.start, emitted.start + info.length) !== info.targetString) return false
+
+        info.start = emitted.start
+        info.line = emitted.line
+        info.character = emitted.character
+        return true
+      })
+      staticQuickInfos.sort((a, b) => a.start - b.start)
+
+      // Query lines point at the line after the identifier they are looking up
+      queries = queries.filter(q => {
+        const emitted = mapToEmit(q.start)
+        if (!emitted) return false
+
+        q.start = emitted.start
+        q.line = emitted.line + 1
+        q.offset = emitted.character
+        return true
+      })
+
+      highlights = highlights.filter(highlight => {
+        const emitted = mapToEmit(highlight.offset)
+        if (!emitted) return false
+
+        highlight.offset = emitted.start
+        highlight.line = emitted.line
+        highlight.start = emitted.character
+        return true
+      })
+
+      annotations = annotations.filter(annotation => {
+        const emitted = mapToEmit(annotation.start)
+        if (!emitted) return false
+
+        annotation.start = emitted.start
+        annotation.line = emitted.line
+        annotation.character = emitted.character
+        return true
+      })
+    } else {
+      // Without a source map there's no way to know where things are in the emit
+      highlights = []
+      annotations = []
+      queries = []
+      staticQuickInfos = []
+    }
   }
 
   const zippedCode = lzstring.compressToEncodedURIComponent(originalCode)
@@ -779,73 +1233,368 @@ export function twoslasher(code: string, extension: string, options: TwoSlashOpt
 
   // Cutting happens last, and it means editing the lines and character index of all
   // the type annotations which are attached to a location
+  const cuts = getCutRanges(code)
 
-  const cutString = "// ---cut---\n"
-  if (code.includes(cutString)) {
-    // Get the place it is, then find the end and the start of the next line
-    const cutIndex = code.indexOf(cutString) + cutString.length
-    const lineOffset = code.substr(0, cutIndex).split("\n").length - 1
+  // Which lines each file is on has to be found before cutting, because a cut can hide the `// @filename:`
+  const fileName = handbookOptions.showEmit ? handbookOptions.showEmittedFile : defaultFileName
+  const fileLines = splitTwoslashCodeInfoFiles(code, fileName, "").map(([filename, lines, startLine]) => ({
+    filename,
+    lines: lines.map((_, i) => startLine + i),
+  }))
 
-    // Kills the code shown
-    code = code.split(cutString).pop()!
+  if (cuts.length) {
+    const hasCutAfter = code.split("\n").some(line => line.trim() === cutAfterString)
+    code = cuts.reduceRight((newCode, cut) => newCode.slice(0, cut.start) + newCode.slice(cut.end), code)
+    if (hasCutAfter) code = code.trimEnd()
 
     // For any type of metadata shipped, it will need to be shifted to
-    // fit in with the new positions after the cut
-    staticQuickInfos.forEach(info => {
-      info.start -= cutIndex
-      info.line -= lineOffset
+    // fit in with the new positions after the cut, or removed if it was cut
+    staticQuickInfos = staticQuickInfos.filter(info => {
+      const start = mapCutPosition(cuts, info.start)
+      const line = mapCutLine(cuts, info.line)
+      if (start === undefined || line === undefined) return false
+
+      info.start = start
+      info.line = line
+      return true
     })
-    staticQuickInfos = staticQuickInfos.filter(s => s.start > -1)
 
-    errors.forEach(err => {
-      if (err.start) err.start -= cutIndex
-      if (err.line) err.line -= lineOffset
+    errors = errors.filter(err => {
+      if (err.start !== undefined) {
+        const start = mapCutPosition(cuts, err.start)
+        if (start === undefined) return false
+        err.start = start
+      }
+      if (err.line !== undefined) {
+        const line = mapCutLine(cuts, err.line)
+        if (line === undefined) return false
+        err.line = line
+      }
+      return true
     })
-    errors = errors.filter(e => e.start && e.start > -1)
 
-    highlights.forEach(highlight => {
-      highlight.start -= cutIndex
-      highlight.line -= lineOffset
+    highlights = highlights.filter(highlight => {
+      const offset = mapCutPosition(cuts, highlight.offset)
+      const line = mapCutLine(cuts, highlight.line)
+      if (offset === undefined || line === undefined) return false
+
+      highlight.offset = offset
+      highlight.line = line
+      return true
     })
 
-    highlights = highlights.filter(e => e.start > -1)
+    annotations = annotations.filter(annotation => {
+      const start = mapCutPosition(cuts, annotation.start)
+      const line = mapCutLine(cuts, annotation.line)
+      if (start === undefined || line === undefined) return false
 
-    queries.forEach(q => (q.line -= lineOffset))
-    queries = queries.filter(q => q.line > -1)
+      annotation.start = start
+      annotation.line = line
+      return true
+    })
 
-    tags.forEach(q => (q.line -= lineOffset))
-    tags = tags.filter(q => q.line > -1)
-  }
+    // Query lines point at the line after the identifier they are looking up
+    queries = queries.filter(q => {
+      const start = mapCutPosition(cuts, q.start)
+      const line = mapCutLine(cuts, q.line - 1)
+      if (start === undefined || line === undefined) return false
 
-  const cutAfterString = "// ---cut-after---\n"
+      q.start = start
+      q.line = line + 1
+      return true
+    })
 
-  if (code.includes(cutAfterString)) {
+    tags = tags.filter(tag => {
+      const line = mapCutLine(cuts, tag.line)
+      if (line === undefined) return false
 
-    // Get the place it is, then find the end and the start of the next line
-    const cutIndex = code.indexOf(cutAfterString) + cutAfterString.length
-    const lineOffset = code.substr(0, cutIndex).split("\n").length - 1
+      tag.line = line
+      return true
+    })
 
-    // Kills the code shown, removing any whitespace on the end
-    code = code.split(cutAfterString).shift()!.trimEnd()
+    fileLines.forEach(file => {
+      file.lines = file.lines.map(line => mapCutLine(cuts, line)).filter((line): line is number => line !== undefined)
+    })
+  }
 
-    // Cut any metadata after the cutAfterString
-    staticQuickInfos = staticQuickInfos.filter(s => s.line < lineOffset)
-    errors = errors.filter(e => e.line && e.line < lineOffset)
-    highlights = highlights.filter(e => e.line < lineOffset)
-    queries = queries.filter(q => q.line < lineOffset)
-    tags = tags.filter(q => q.line < lineOffset)
+  // Errors and highlights have been using lines in the whole sample, but their `line` is the line inside their file
+  const getLineInFile = (line: number) => {
+    const file = fileLines.find(f => f.lines.includes(line))
+    return file ? line - file.lines[0] : line
   }
 
+  const errorsWithFileLines = errors.map(err => ({
+    ...err,
+    line: err.line === undefined ? undefined : getLineInFile(err.line),
+    originalLine: err.line,
+  }))
+  const highlightsWithFileLines = highlights.map(highlight => ({
+    ...highlight,
+    line: getLineInFile(highlight.line),
+    originalLine: highlight.line,
+  }))
+
+  const files = getFileResults(code, fileLines, {
+    highlights: highlightsWithFileLines,
+    queries,
+    staticQuickInfos,
+    errors: errorsWithFileLines,
+    annotations,
+  })
+
   return {
     code,
     extension,
-    highlights,
+    highlights: highlightsWithFileLines,
     queries,
     staticQuickInfos,
-    errors,
+    errors: errorsWithFileLines,
     playgroundURL,
     tags,
+    annotations,
+    files,
+  }
+}
+
+/**
+ * Creates a twoslasher which shares work between each of its runs, useful when running many samples
+ * like when building a website. Samples which use the same compiler options re-use the language service
+ * environment from previous runs, and every sample re-uses the parsed lib `.d.ts` files.
+ *
+ * The files from one sample are removed from the environment before the next sample runs, so they can't
+ * be seen in another. A run which passes its own `fsMap`, `vfsRoot` or `customTransformers` gets a new
+ * environment, and passing an `fsMap` uses that Map directly, like `twoslasher`.
+ *
+ * @param factoryOptions Options for every run, these are merged with the options for each run
+ */
+export function createTwoslasher(factoryOptions: TwoSlashOptions = {}) {
+  const ts: TS = factoryOptions.tsModule ?? require("typescript")
+  const documentRegistry = factoryOptions.documentRegistry ?? ts.createDocumentRegistry()
+
+  // The environments from earlier runs by their compiler options, with the files they started with
+  const environments = new Map<string, { environment: TwoslashEnvironment; startingFiles: Map<string, string> }>()
+
+  const getEnvironment: GetEnvironment = (compilerOptions, createEnvironment) => {
+    const key = JSON.stringify(compilerOptions)
+    const existing = environments.get(key)
+    if (!existing) {
+      const environment = createEnvironment(factoryOptions.fsMap && new Map(factoryOptions.fsMap))
+      environments.set(key, { environment, startingFiles: new Map(environment.fsMap) })
+      return environment
+    }
+
+    // Remove the files which the last sample made, then put back the starting files which it changed
+    const { environment, startingFiles } = existing
+    const { fsMap, system, env } = environment
+    fsMap.forEach((_content, fileName) => {
+      if (!startingFiles.has(fileName)) env.deleteFile(fileName)
+    })
+    startingFiles.forEach((content, fileName) => {
+      if (fsMap.get(fileName) === content) return
+      if (env.getSourceFile(fileName)) {
+        env.updateFile(fileName, content)
+      } else {
+        // Not in the program, so it's removed from the environment to drop its version before it's put back
+        env.deleteFile(fileName)
+        system.writeFile(fileName, content)
+      }
+    })
+    env.setRootFiles([])
+    return environment
+  }
+
+  /**
+   * Runs the checker against a TypeScript/JavaScript code sample, re-using files from earlier runs.
+   *
+   * @param code The twoslash markup'd code
+   * @param extension For example: "ts", "tsx", "typescript", "javascript" or "js".
+   * @param options Additional options for this run
+   */
+  return (code: string, extension: string, options: TwoSlashOptions = {}): TwoSlashReturn => {
+    const canReuseEnvironment = !options.fsMap && !options.vfsRoot && !options.customTransformers
+    // A re-used environment makes its own copy of the factory's fsMap when it's first made
+    const factoryFsMap =
+      factoryOptions.fsMap && (canReuseEnvironment ? factoryOptions.fsMap : new Map(factoryOptions.fsMap))
+
+    return runTwoslasher(
+      code,
+      extension,
+      {
+        ...factoryOptions,
+        ...options,
+        defaultOptions: { ...factoryOptions.defaultOptions, ...options.defaultOptions },
+        defaultCompilerOptions: { ...factoryOptions.defaultCompilerOptions, ...options.defaultCompilerOptions },
+        tsModule: ts,
+        fsMap: options.fsMap ?? factoryFsMap,
+        documentRegistry,
+      },
+      canReuseEnvironment ? getEnvironment : undefined
+    )
+  }
+}
+
+type FileMetadata = Pick<TwoSlashReturn, "highlights" | "queries" | "staticQuickInfos" | "errors" | "annotations">
+
+/**
+ * Splits the final code back into its `// @filename:` files, moving all of the metadata
+ * from positions in the whole sample into positions inside the file it came from.
+ *
+ * @param fileLines the lines in the final code for each file, the ones which were cut are not included
+ */
+function getFileResults(
+  code: string,
+  fileLines: Array<{ filename: string; lines: number[] }>,
+  metadata: FileMetadata
+): TwoSlashReturn["files"] {
+  const lines = code.split(/\r\n?|\n/g)
+  const lineStarts: number[] = []
+  let index = 0
+  for (const line of lines) {
+    lineStarts.push(index)
+    index += line.length + 1
   }
+
+  // Files which were fully cut (or only have an empty line left) are not included
+  const visibleFiles = fileLines
+    .map(file => ({ filename: file.filename, lines: file.lines.filter(line => line < lines.length) }))
+    .filter(file => file.lines.length > 1 || (file.lines.length === 1 && lines[file.lines[0]] !== ""))
+
+  return visibleFiles.map(({ filename, lines: fileLineNumbers }) => {
+    const startLine = fileLineNumbers[0]
+    const startIndex = lineStarts[startLine]
+    const isInFile = (line: number | undefined) => line !== undefined && fileLineNumbers.includes(line)
+
+    return {
+      filename,
+      code: fileLineNumbers.map(line => lines[line]).join("\n"),
+      extension: filename.split(".").pop()!,
+      highlights: metadata.highlights
+        .filter(h => isInFile(h.originalLine))
+        .map(h => ({ ...h, offset: h.offset - startIndex })),
+      // Query lines point at the line after the identifier they are looking up
+      queries: metadata.queries
+        .filter(q => isInFile(q.line - 1))
+        .map(q => ({ ...q, start: q.start - startIndex, line: q.line - startLine })),
+      staticQuickInfos: metadata.staticQuickInfos
+        .filter(info => isInFile(info.line))
+        .map(info => ({ ...info, start: info.start - startIndex, line: info.line - startLine })),
+      errors: metadata.errors
+        .filter(e => isInFile(e.originalLine))
+        .map(e => ({ ...e, start: e.start === undefined ? undefined : e.start - startIndex })),
+      annotations: metadata.annotations
+        .filter(a => isInFile(a.line))
+        .map(a => ({ ...a, start: a.start - startIndex, line: a.line - startLine })),
+    }
+  })
+}
+
+const cutString = "// ---cut---"
+const cutAfterString = "// ---cut-after---"
+const cutStartString = "// ---cut-start---"
+const cutEndString = "// ---cut-end---"
+
+/** A section of the final code which should not be shown, ranges go from the start of a line to the start of another */
+type CutRange = {
+  /** The index in the code where the cut begins */
+  start: number
+  /** The index in the code after the end of the cut */
+  end: number
+  /** The first line which is cut */
+  startLine: number
+  /** The line after the last cut line */
+  endLine: number
+}
+
+/**
+ * Finds all of the sections of code to remove:
+ *
+ * - `// ---cut---` removes everything above it, when there are many the last one wins
+ * - `// ---cut-after---` removes everything after it
+ * - `// ---cut-start---` and `// ---cut-end---` remove everything between them inside a single
+ *   `// @filename:` file, if there is no `// ---cut-end---` then it removes until the end of that file
+ */
+function getCutRanges(code: string): CutRange[] {
+  const lines = code.split("\n")
+  const lineStarts: number[] = []
+  let index = 0
+  for (const line of lines) {
+    lineStarts.push(index)
+    index += line.length + 1
+  }
+
+  const startOfLine = (line: number) => (line < lines.length ? lineStarts[line] : code.length)
+
+  const ranges: CutRange[] = []
+  const addRange = (startLine: number, endLine: number) =>
+    ranges.push({ start: startOfLine(startLine), end: startOfLine(endLine), startLine, endLine })
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim()
+
+    if (line === cutAfterString) {
+      addRange(i, lines.length)
+      break
+    }
+
+    if (line === cutString && i < lines.length - 1) {
+      addRange(0, i + 1)
+    }
+
+    if (line === cutStartString) {
+      // Cuts are scoped to a file, unless the cut starts right above a `// @filename:` and so includes it
+      let end = i + 1
+      if (end < lines.length && isFilenameLine(lines[end])) end++
+      while (end < lines.length && lines[end].trim() !== cutEndString && !isFilenameLine(lines[end])) end++
+
+      if (end < lines.length && lines[end].trim() === cutEndString) {
+        // Include the `// ---cut-end---` line
+        addRange(i, end + 1)
+        i = end
+      } else {
+        // Unclosed, so stop at the next file
+        addRange(i, end)
+        i = end - 1
+      }
+    }
+  }
+
+  // Merge any overlapping cuts so that positions are only shifted once
+  ranges.sort((l, r) => l.start - r.start)
+  const merged: CutRange[] = []
+  for (const range of ranges) {
+    const last = merged[merged.length - 1]
+    if (last && range.start <= last.end) {
+      if (range.end > last.end) {
+        last.end = range.end
+        last.endLine = range.endLine
+      }
+    } else {
+      merged.push({ ...range })
+    }
+  }
+  return merged
+}
+
+const isFilenameLine = (line: string) => line.includes("// @filename: ")
+
+/** Converts an index in the code to its index after cutting, returns undefined if it was cut */
+function mapCutPosition(cuts: CutRange[], position: number) {
+  let shift = 0
+  for (const cut of cuts) {
+    if (position >= cut.end) shift += cut.end - cut.start
+    else if (position >= cut.start) return undefined
+  }
+  return position - shift
+}
+
+/** Converts a line in the code to its line after cutting, returns undefined if it was cut */
+function mapCutLine(cuts: CutRange[], line: number) {
+  let shift = 0
+  for (const cut of cuts) {
+    if (line >= cut.endLine) shift += cut.endLine - cut.startLine
+    else if (line >= cut.startLine) return undefined
+  }
+  return line - shift
 }
 
 const splitTwoslashCodeInfoFiles = (code: string, defaultFileName: string, root: string) => {
@@ -853,18 +1602,21 @@ const splitTwoslashCodeInfoFiles = (code: string, defaultFileName: string, root:
 
   let nameForFile = code.includes(`@filename: ${defaultFileName}`) ? "global.ts" : defaultFileName
   let currentFileContent: string[] = []
-  const fileMap: Array<[string, string[]]> = []
+  let currentFileStartLine = 0
+  // The third item is which line in the code the file's content starts on
+  const fileMap: Array<[string, string[], number]> = []
 
-  for (const line of lines) {
+  lines.forEach((line, i) => {
     if (line.includes("// @filename: ")) {
-      fileMap.push([root + nameForFile, currentFileContent])
+      fileMap.push([root + nameForFile, currentFileContent, currentFileStartLine])
       nameForFile = line.split("// @filename: ")[1].trim()
       currentFileContent = []
+      currentFileStartLine = i + 1
     } else {
       currentFileContent.push(line)
     }
-  }
-  fileMap.push([root + nameForFile, currentFileContent])
+  })
+  fileMap.push([root + nameForFile, currentFileContent, currentFileStartLine])
 
   // Basically, strip these:
   // ["index.ts", []]
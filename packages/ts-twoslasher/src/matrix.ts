@@ -0,0 +1,163 @@
+import { twoslasher, TwoSlashOptions, TwoSlashReturn, TwoslashError } from "./"
+import { createDefaultMapFromNodeModules } from "@typescript/vfs"
+
+type TS = typeof import("typescript")
+
+export interface TwoSlashMatrixOptions extends Omit<TwoSlashOptions, "tsModule"> {
+  /** The copies of TypeScript to run the sample against, keyed by a name for each version e.g. `{ "4.3": ts43, "4.4": ts44 }` */
+  tsModules: Record<string, TS>
+}
+
+export interface TwoSlashMatrixReturn {
+  /** The twoslash results for each version, keyed by the same names as `tsModules` */
+  results: Record<string, TwoSlashReturn>
+
+  /** The emitted JS for each version, undefined when the sample could not show its emit */
+  emit: Record<string, string | undefined>
+
+  /** The parts of the results which are not the same in every version */
+  differences: {
+    /** Errors which only happen in some of the versions */
+    errors: {
+      code: number
+      start: number | undefined
+      line: number | undefined
+      character: number | undefined
+      /** The rendered message for each version which has the error */
+      renderedMessages: Record<string, string>
+      /** The versions which have this error */
+      versions: string[]
+    }[]
+
+    /** Identifiers which have different quick info between versions */
+    staticQuickInfos: {
+      targetString: string
+      start: number
+      line: number
+      character: number
+      /** The quick info text for each version, undefined when a version had no quick info */
+      texts: Record<string, string | undefined>
+    }[]
+
+    /** Whether the emitted JS is different between versions, see `emit` for the JS */
+    emit: boolean
+  }
+}
+
+/**
+ * Runs the same twoslash code sample against many versions of TypeScript, and reports what is
+ * different between them. Error validation is turned off by default, because the point is to
+ * see which errors change between versions.
+ *
+ * @param code The twoslash markup'd code
+ * @param extension For example: "ts", "tsx", "typescript", "javascript" or "js".
+ * @param options Additional options for twoslash, with a `tsModules` instead of a `tsModule`
+ */
+export function twoslasherMatrix(
+  code: string,
+  extension: string,
+  options: TwoSlashMatrixOptions
+): TwoSlashMatrixReturn {
+  const { tsModules, ...twoslashOptions } = options
+  const versions = Object.keys(tsModules)
+
+  const results: Record<string, TwoSlashReturn> = {}
+  const emit: Record<string, string | undefined> = {}
+
+  for (const version of versions) {
+    const tsModule = tsModules[version]
+    const fsMap = twoslashOptions.fsMap && getVersionFsMap(twoslashOptions.fsMap, twoslashOptions, tsModule)
+    const getOptions = (defaultOptions: TwoSlashOptions["defaultOptions"]) => ({
+      ...twoslashOptions,
+      defaultOptions,
+      tsModule,
+      fsMap: fsMap && new Map(fsMap),
+    })
+
+    const defaultOptions = { noErrorValidation: true, ...twoslashOptions.defaultOptions }
+    results[version] = twoslasher(code, extension, getOptions(defaultOptions))
+
+    try {
+      const emitOptions = { ...defaultOptions, showEmit: true, noStaticSemanticInfo: true, noErrorValidation: true }
+      emit[version] = twoslasher(code, extension, getOptions(emitOptions)).code
+    } catch (error) {
+      // Not every sample can be emitted, e.g. a sample without an index.ts
+      if (!(error instanceof TwoslashError)) throw error
+      emit[version] = undefined
+    }
+  }
+
+  return {
+    results,
+    emit,
+    differences: {
+      errors: getErrorDifferences(versions, results),
+      staticQuickInfos: getQuickInfoDifferences(versions, results),
+      emit: new Set(versions.map(v => emit[v])).size > 1,
+    },
+  }
+}
+
+/**
+ * Copies the fsMap for one version of TypeScript, with the lib files from that version. Without an fsMap
+ * the lib files are already read from the folder of each version.
+ */
+function getVersionFsMap(fsMap: Map<string, string>, options: TwoSlashOptions, tsModule: TS) {
+  const compilerOptions = { target: tsModule.ScriptTarget.ES2016, ...options.defaultCompilerOptions }
+  const versionFsMap = new Map(fsMap)
+  createDefaultMapFromNodeModules(compilerOptions, tsModule).forEach((lib, fileName) => versionFsMap.set(fileName, lib))
+  return versionFsMap
+}
+
+function getErrorDifferences(versions: string[], results: Record<string, TwoSlashReturn>) {
+  const errors = new Map<string, TwoSlashMatrixReturn["differences"]["errors"][number]>()
+
+  for (const version of versions) {
+    for (const error of results[version].errors) {
+      const key = `${error.code}-${error.start}`
+      const existing = errors.get(key)
+      if (existing) {
+        existing.renderedMessages[version] = error.renderedMessage
+        existing.versions.push(version)
+      } else {
+        errors.set(key, {
+          code: error.code,
+          start: error.start,
+          line: error.line,
+          character: error.character,
+          renderedMessages: { [version]: error.renderedMessage },
+          versions: [version],
+        })
+      }
+    }
+  }
+
+  return Array.from(errors.values()).filter(e => e.versions.length !== versions.length)
+}
+
+function getQuickInfoDifferences(versions: string[], results: Record<string, TwoSlashReturn>) {
+  const infos = new Map<string, TwoSlashMatrixReturn["differences"]["staticQuickInfos"][number]>()
+
+  for (const version of versions) {
+    for (const info of results[version].staticQuickInfos) {
+      const key = `${info.start}-${info.length}`
+      const existing = infos.get(key)
+      if (existing) {
+        existing.texts[version] = info.text
+      } else {
+        infos.set(key, {
+          targetString: info.targetString,
+          start: info.start,
+          line: info.line,
+          character: info.character,
+          texts: { [version]: info.text },
+        })
+      }
+    }
+  }
+
+  return Array.from(infos.values()).filter(info => {
+    const texts = versions.map(v => info.texts[v])
+    return new Set(texts).size > 1
+  })
+}
@@ -0,0 +1,100 @@
+/** One segment from a source map, all of the numbers are zero-based */
+export interface SourceMapping {
+  generatedLine: number
+  generatedCharacter: number
+  sourceIndex: number
+  sourceLine: number
+  sourceCharacter: number
+}
+
+const base64Chars = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/"
+
+/**
+ * Decodes the base64 VLQ `mappings` string of a source map, skipping any segments
+ * which don't point back at a source file.
+ */
+export function decodeSourceMapMappings(mappings: string): SourceMapping[] {
+  const results: SourceMapping[] = []
+  // Apart from the generated character, each field is relative to the same field in the previous segment
+  const state = [0, 0, 0, 0, 0]
+
+  mappings.split(";").forEach((line, generatedLine) => {
+    state[0] = 0
+
+    line.split(",").forEach(segment => {
+      if (!segment) return
+
+      let field = 0
+      let value = 0
+      let shift = 0
+      for (const char of segment) {
+        const digit = base64Chars.indexOf(char)
+        value += (digit & 31) << shift
+
+        if (digit & 32) {
+          shift += 5
+        } else {
+          state[field] += value & 1 ? -(value >>> 1) : value >>> 1
+          field++
+          value = 0
+          shift = 0
+        }
+      }
+
+      if (field < 4) return
+      results.push({
+        generatedLine,
+        generatedCharacter: state[0],
+        sourceIndex: state[1],
+        sourceLine: state[2],
+        sourceCharacter: state[3],
+      })
+    })
+  })
+
+  return results
+}
+
+/**
+ * Creates a function which moves a line and character in one of the source files onto the
+ * emitted file, using the closest mapping at or before that character on the same line.
+ *
+ * @param sourceMapFileName The path of the `.map` file, its sources are relative to this
+ * @param sourceMapText The JSON contents of the `.map` file
+ */
+export function createSourceToEmitMapper(sourceMapFileName: string, sourceMapText: string) {
+  const sourceMap = JSON.parse(sourceMapText) as { sources: string[]; sourceRoot?: string; mappings: string }
+  const mapDirectory = sourceMapFileName.split("/").slice(0, -1).join("/")
+  const sources = sourceMap.sources.map(source =>
+    resolvePath(mapDirectory, sourceMap.sourceRoot ? sourceMap.sourceRoot + "/" + source : source)
+  )
+
+  const mappings = decodeSourceMapMappings(sourceMap.mappings)
+
+  return (fileName: string, line: number, character: number) => {
+    const sourceIndex = sources.indexOf(fileName)
+    let closest: SourceMapping | undefined
+
+    for (const mapping of mappings) {
+      if (mapping.sourceIndex !== sourceIndex || mapping.sourceLine !== line) continue
+      if (mapping.sourceCharacter > character) continue
+      if (!closest || mapping.sourceCharacter > closest.sourceCharacter) closest = mapping
+    }
+
+    if (!closest) return undefined
+    return {
+      line: closest.generatedLine,
+      character: closest.generatedCharacter + character - closest.sourceCharacter,
+    }
+  }
+}
+
+/** Joins a relative path onto a folder, handling `.` and `..` */
+function resolvePath(directory: string, relativePath: string) {
+  const parts = relativePath.startsWith("/") ? [] : directory.split("/")
+  relativePath.split("/").forEach(part => {
+    if (part === "..") parts.pop()
+    else if (part !== ".") parts.push(part)
+  })
+  return parts.join("/")
+}
@@ -36,7 +36,9 @@ export function parsePrimitive(value: string, type: string): any {
   throw new TwoslashError(
     `Unknown primitive value in compiler flag`,
     `The only recognized primitives are number, string and boolean. Got ${type} with ${value}.`,
-    `This is likely a typo.`
+    `This is likely a typo.`,
+    undefined,
+    { kind: "invalid-compiler-value" }
   )
 }
 
@@ -63,7 +65,9 @@ export function typesToExtension(types: string) {
   throw new TwoslashError(
     `Unknown TypeScript extension given to Twoslash`,
     `Received ${types} but Twoslash only accepts: ${Object.keys(map)} `,
-    ``
+    ``,
+    undefined,
+    { kind: "unknown-extension" }
   )
 }
 
@@ -83,6 +87,39 @@ export function getIdentifierTextSpans(ts: typeof import("typescript"), sourceFi
   }
 }
 
+/**
+ * Finds the first line in the code which includes the text, and optionally is followed by a
+ * specific line. Used to point errors at a place in the original code sample.
+ */
+export function findLineInCode(code: string, text: string, nextLine?: string) {
+  const lines = code.split(/\r\n?|\n/g)
+  for (let i = 0; i < lines.length; i++) {
+    if (!lines[i].includes(text)) continue
+    if (nextLine !== undefined && lines[i + 1] !== nextLine) continue
+
+    return { line: i, column: lines[i].indexOf(text) }
+  }
+  return undefined
+}
+
+/**
+ * Finds the line in the original code sample which each line of a file came from. Twoslash only
+ * ever removes whole lines, so the lines which are left can be matched up in order.
+ */
+export function getOriginalLineNumbers(originalCode: string, fileCode: string, fileStartLine: number) {
+  const originalLines = originalCode.split(/\r\n?|\n/g)
+  let next = fileStartLine
+  return fileCode.split(/\r\n?|\n/g).map(line => {
+    for (let i = next; i < originalLines.length; i++) {
+      if (originalLines[i] === line) {
+        next = i + 1
+        return i
+      }
+    }
+    return undefined
+  })
+}
+
 export function stringAroundIndex(string: string, index: number) {
   const arr = [
     string[index - 3],
@@ -1,12 +1,15 @@
-import { TwoslashError } from "./"
+import { TwoslashError, TwoslashErrorDiagnostic } from "./"
+import { findLineInCode } from "./utils"
 
 /** To ensure that errors are matched up right */
 export function validateCodeForErrors(
+  ts: typeof import("typescript"),
   relevantErrors: import("typescript").Diagnostic[],
   handbookOptions: { errors: number[] },
   extension: string,
   originalCode: string,
-  vfsRoot: string
+  vfsRoot: string,
+  getOriginalPosition: (diagnostic: import("typescript").Diagnostic) => { line: number; character: number } | undefined
 ) {
   const inErrsButNotFoundInTheHeader = relevantErrors.filter(e => !handbookOptions.errors.includes(e.code))
   const errorsFound = Array.from(new Set(inErrsButNotFoundInTheHeader.map(e => e.code))).join(" ")
@@ -55,10 +58,44 @@ export function validateCodeForErrors(
 
     const allMessages = innerDiags.join("\n\n")
 
+    const diagnostics: TwoslashErrorDiagnostic[] = inErrsButNotFoundInTheHeader.map(e => {
+      const position = getOriginalPosition(e)
+      return {
+        code: e.code,
+        message: ts.flattenDiagnosticMessageText(e.messageText, "\n"),
+        filename: e.file?.fileName && e.file.fileName.replace(vfsRoot, ""),
+        start: e.start,
+        length: e.length,
+        line: position?.line,
+        character: position?.character,
+      }
+    })
+
+    // The fix is to replace the existing errors tag, or to add one to the top of the sample
+    const existingErrorsTag = findLineInCode(originalCode, "// @errors:")
+    const suggestedFix = {
+      description: existingErrorsTag ? `Replace the errors tag with '${codeToAdd}'` : `Add '${codeToAdd}'`,
+      line: existingErrorsTag?.line,
+      text: codeToAdd,
+    }
+
+    // Without an errors tag to point at, the first unexpected error is the best place
+    const firstDiagnostic = diagnostics.find(d => d.line !== undefined)
+    const line = existingErrorsTag ? existingErrorsTag.line : firstDiagnostic?.line
+    const column = existingErrorsTag ? existingErrorsTag.column : firstDiagnostic?.character
+
     const newErr = new TwoslashError(
       `Errors were thrown in the sample, but not included in an errors tag`,
       `These errors were not marked as being expected: ${errorsFound}. ${missing}`,
-      `Compiler Errors:\n\n${allMessages}`
+      `Compiler Errors:\n\n${allMessages}`,
+      undefined,
+      {
+        kind: "unexpected-errors",
+        line,
+        column,
+        diagnostics,
+        suggestedFix,
+      }
     )
 
     newErr.code = `## Code\n\n'''${extension}\n${originalCode}\n'''`
@@ -68,19 +105,27 @@ export function validateCodeForErrors(
 
 /** Mainly to warn myself, I've lost a good few minutes to this before */
 export function validateInput(code: string) {
-  if (code.includes("// @errors ")) {
-    throw new TwoslashError(
-      `You have '// @errors ' (with a space)`,
-      `You want '// @errors: ' (with a colon)`,
-      `This is a pretty common typo`
-    )
-  }
+  const typos = [
+    ["// @errors ", "// @errors: "],
+    ["// @filename ", "// @filename: "],
+  ]
 
-  if (code.includes("// @filename ")) {
-    throw new TwoslashError(
-      `You have '// @filename ' (with a space)`,
-      `You want '// @filename: ' (with a colon)`,
-      `This is a pretty common typo`
-    )
+  for (const [typo, fixed] of typos) {
+    const position = findLineInCode(code, typo)
+    if (position) {
+      const line = code.split(/\r\n?|\n/g)[position.line]
+      throw new TwoslashError(
+        `You have '${typo}' (with a space)`,
+        `You want '${fixed}' (with a colon)`,
+        `This is a pretty common typo`,
+        undefined,
+        {
+          kind: "typo",
+          line: position.line,
+          column: position.column,
+          suggestedFix: { description: `Use '${fixed}'`, line: position.line, text: line.replace(typo, fixed) },
+        }
+      )
+    }
   }
 }
@@ -0,0 +1,77 @@
+import { createTwoslashCache, createFSBackedCacheStore, getTwoslashCacheKey, twoslasher } from "../src/index"
+import { mkdtempSync, readdirSync } from "fs"
+import { tmpdir } from "os"
+import { join } from "path"
+import { createDefaultMapFromNodeModules } from "@typescript/vfs"
+
+const file = `
+const a = "123"
+//    ^?
+`
+
+describe("caching twoslash results", () => {
+  it("re-uses the results for the same sample", () => {
+    const cache = createTwoslashCache()
+    const first = cache.twoslasher(file, "ts")
+    const second = cache.twoslasher(file, "ts")
+
+    expect(cache.stats).toEqual({ hits: 1, misses: 1, skipped: 0 })
+    expect(second).toEqual(JSON.parse(JSON.stringify(first)))
+  })
+
+  it("re-runs when the options change", () => {
+    const cache = createTwoslashCache()
+    cache.twoslasher(file, "ts")
+    cache.twoslasher(file, "ts", { defaultCompilerOptions: { strict: false } })
+    cache.twoslasher(file, "ts", { defaultOptions: { noStaticSemanticInfo: true } })
+
+    expect(cache.stats).toEqual({ hits: 0, misses: 3, skipped: 0 })
+  })
+
+  it("re-uses the results when sharing an fsMap between runs", () => {
+    const fsMap = createDefaultMapFromNodeModules({})
+    const files = Array.from(fsMap.keys())
+    const cache = createTwoslashCache()
+    cache.twoslasher(file, "ts", { fsMap })
+    cache.twoslasher(file, "ts", { fsMap })
+    cache.twoslasher(file, "ts", { fsMap })
+
+    expect(cache.stats).toEqual({ hits: 2, misses: 1, skipped: 0 })
+    expect(Array.from(fsMap.keys())).toEqual(files)
+  })
+
+  it("does not cache samples which need to emit", () => {
+    const cache = createTwoslashCache()
+    cache.twoslasher(file, "ts", { defaultOptions: { emit: true } })
+    cache.twoslasher("// @emit\n" + file, "ts")
+
+    expect(cache.stats).toEqual({ hits: 0, misses: 0, skipped: 2 })
+  })
+
+  it("can store the results on disk", () => {
+    const directory = join(mkdtempSync(join(tmpdir(), "twoslash-")), "cache")
+    const first = createTwoslashCache({ store: createFSBackedCacheStore(directory) })
+    first.twoslasher(file, "ts")
+    expect(readdirSync(directory).length).toEqual(1)
+
+    const second = createTwoslashCache({ store: createFSBackedCacheStore(directory) })
+    const result = second.twoslasher(file, "ts")
+    expect(second.stats.hits).toEqual(1)
+    expect(result.queries[0].text).toEqual(twoslasher(file, "ts").queries[0].text)
+  })
+})
+
+describe("cache keys", () => {
+  it("changes when the TypeScript version changes", () => {
+    expect(getTwoslashCacheKey(file, "ts", {}, "4.3.2")).not.toEqual(getTwoslashCacheKey(file, "ts", {}, "4.4.0"))
+  })
+
+  it("changes when a file in the fsMap changes", () => {
+    const fsMap = new Map([["/lib.d.ts", "interface Array<T> {}"]])
+    const before = getTwoslashCacheKey(file, "ts", { fsMap }, "4.3.2")
+    expect(getTwoslashCacheKey(file, "ts", { fsMap }, "4.3.2")).toEqual(before)
+
+    fsMap.set("/lib.d.ts", "interface Array<T> { length: number }")
+    expect(getTwoslashCacheKey(file, "ts", { fsMap }, "4.3.2")).not.toEqual(before)
+  })
+})
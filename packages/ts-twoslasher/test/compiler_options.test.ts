@@ -1,5 +1,6 @@
 import { twoslasher } from "../src/index"
 import { ModuleKind } from "typescript"
+import { createDefaultMapFromNodeModules } from "@typescript/vfs"
 
 it("emits CommonJS", () => {
   const files = `
@@ -17,3 +18,17 @@ console.log(helloWorld)
   expect(result.errors).toEqual([])
   expect(result.code!).toContain('require("./file-with-export")')
 })
+
+it("skips the version pins for type acquisition", () => {
+  const fsMap = createDefaultMapFromNodeModules({})
+  fsMap.set("/node_modules/@types/virtual/index.d.ts", "declare const virtual: string")
+
+  // Setting the types option would stop the global from @types/virtual being included
+  const code = `
+// @types: react@17 react-dom@^17
+virtual
+`
+  const result = twoslasher(code, "ts", { fsMap })
+  expect(result.errors).toEqual([])
+  expect(result.code).not.toContain("@types")
+})
@@ -0,0 +1,118 @@
+import { createTwoslasher, twoslasher } from "../src/index"
+import { createDefaultMapFromNodeModules } from "@typescript/vfs"
+import ts from "typescript"
+
+describe(createTwoslasher, () => {
+  it("gives the same results as twoslasher", () => {
+    const file = `
+const a = [1, 2, 3].map(n => n.toFixed())
+//    ^?
+`
+    const run = createTwoslasher()
+    expect(run(file, "ts")).toEqual(twoslasher(file, "ts"))
+  })
+
+  const createLibTrackingRegistry = () => {
+    const registry = ts.createDocumentRegistry()
+    const libFiles: ts.SourceFile[] = []
+    const documentRegistry: ts.DocumentRegistry = {
+      ...registry,
+      acquireDocumentWithKey: (...args: Parameters<ts.DocumentRegistry["acquireDocumentWithKey"]>) => {
+        const sourceFile = registry.acquireDocumentWithKey(...args)
+        if (sourceFile.fileName.endsWith("lib.es5.d.ts")) libFiles.push(sourceFile)
+        return sourceFile
+      },
+    }
+    return { documentRegistry, libFiles }
+  }
+
+  it("re-uses the environment for samples with the same compiler options", () => {
+    const { documentRegistry, libFiles } = createLibTrackingRegistry()
+
+    const run = createTwoslasher({ documentRegistry })
+    run("const a = 1", "ts")
+    run("const b = 2", "ts")
+
+    expect(libFiles.length).toEqual(1)
+  })
+
+  it("re-uses parsed lib files between environments", () => {
+    const { documentRegistry, libFiles } = createLibTrackingRegistry()
+
+    const run = createTwoslasher({ documentRegistry })
+    run("const a = 1", "ts")
+    run("// @noUnusedLocals: true\nconst b = 2", "ts")
+
+    expect(libFiles.length).toEqual(2)
+    expect(libFiles[0]).toBe(libFiles[1])
+  })
+
+  it("does not share files between samples", () => {
+    const run = createTwoslasher()
+
+    const first = run(
+      `
+// @filename: a.ts
+export const a = 1
+// @filename: index.ts
+import { a } from "./a"
+//       ^?
+`,
+      "ts"
+    )
+    expect(first.queries[0].text).toEqual("(alias) const a: 1\nimport a")
+
+    const second = run(
+      `
+// @filename: a.ts
+export const a = "changed"
+// @filename: index.ts
+import { a } from "./a"
+//       ^?
+`,
+      "ts"
+    )
+    expect(second.queries[0].text).toEqual('(alias) const a: "changed"\nimport a')
+
+    const third = run(
+      `
+// @errors: 2307
+import { a } from "./a"
+`,
+      "ts"
+    )
+    expect(third.errors.map(e => e.code)).toEqual([2307])
+  })
+
+  it("does not share files between samples which use an fsMap", () => {
+    const run = createTwoslasher({ fsMap: createDefaultMapFromNodeModules({ target: ts.ScriptTarget.ES2016 }) })
+
+    run("// @filename: a.ts\nexport const a = 1\n// @filename: index.ts\nimport { a } from './a'", "ts")
+    const result = run("// @errors: 2307\nimport { a } from './a'", "ts")
+
+    expect(result.errors.map(e => e.code)).toEqual([2307])
+  })
+
+  it("puts back the starting files which a sample changed without changing the factory's fsMap", () => {
+    const fsMap = createDefaultMapFromNodeModules({ target: ts.ScriptTarget.ES2016 })
+    fsMap.set("/node_modules/@types/virtual/index.d.ts", "declare const virtual: string")
+    const run = createTwoslasher({ fsMap })
+
+    const first = run(
+      "// @filename: node_modules/@types/virtual/index.d.ts\ndeclare const virtual: number\n// @filename: index.ts\nvirtual\n// ^?",
+      "ts"
+    )
+    expect(first.queries[0].text).toEqual("const virtual: number")
+
+    const second = run("virtual\n// ^?", "ts")
+    expect(second.queries[0].text).toEqual("const virtual: string")
+    expect(fsMap.get("/node_modules/@types/virtual/index.d.ts")).toEqual("declare const virtual: string")
+    expect(fsMap.has("/index.ts")).toBe(false)
+  })
+
+  it("merges the options for each run with the factory options", () => {
+    const run = createTwoslasher({ defaultCompilerOptions: { strict: false }, defaultOptions: { noErrors: true } })
+    const result = run("const a: string = 1", "ts", { defaultCompilerOptions: { target: ts.ScriptTarget.ES5 } })
+    expect(result.errors).toEqual([])
+  })
+})
@@ -110,4 +110,126 @@ const b = "345"
     // Should be at char 7
     expect(bLSPResult!.start).toEqual(7)
   })
-})
\ No newline at end of file
+})
+describe("supports many cut-start/cut-end regions", () => {
+  const file = `
+const a = "123"
+// ---cut-start---
+const b = "345"
+// ---cut-end---
+const c = "678"
+// ---cut-start---
+const d = "901"
+// ---cut-end---
+const e = "234"
+//    ^?
+`
+  const result = twoslasher(file, "ts")
+
+  it("hides the right code", () => {
+    expect(result.code).toEqual(`
+const a = "123"
+const c = "678"
+const e = "234"
+`)
+  })
+
+  it("shows the right LSP results", () => {
+    expect(result.staticQuickInfos.find(info => info.text.includes("const b"))).toBeUndefined()
+    expect(result.staticQuickInfos.find(info => info.text.includes("const d"))).toBeUndefined()
+
+    const cLSPResult = result.staticQuickInfos.find(info => info.text.includes("const c"))
+    expect(cLSPResult!.line).toEqual(2)
+    expect(cLSPResult!.start).toEqual(23)
+
+    const eLSPResult = result.staticQuickInfos.find(info => info.text.includes("const e"))
+    expect(eLSPResult!.line).toEqual(3)
+    expect(eLSPResult!.start).toEqual(39)
+  })
+
+  it("shows the right query results", () => {
+    expect(result.queries.length).toEqual(1)
+    expect(result.queries[0].text).toContain("const e")
+    expect(result.queries[0].start).toEqual(39)
+  })
+})
+
+describe("supports cutting inside individual files", () => {
+  const file = `
+// @filename: setup.ts
+// ---cut-start---
+export const a = "123"
+// @filename: index.ts
+import { a } from "./setup"
+// ---cut-start---
+const b = "345"
+// ---cut-end---
+const c: number = a
+`
+  const result = twoslasher(file, "ts", { defaultOptions: { noErrorValidation: true } })
+
+  it("stops an unclosed cut at the end of its file", () => {
+    expect(result.code).toEqual(`
+// @filename: setup.ts
+// @filename: index.ts
+import { a } from "./setup"
+const c: number = a
+`)
+  })
+
+  it("shifts the errors into the cut code", () => {
+    expect(result.errors.length).toEqual(1)
+    const error = result.errors[0]
+    expect(error.line).toEqual(1)
+    expect(error.originalLine).toEqual(4)
+    expect(result.code.substr(error.start!, error.length)).toEqual("c")
+  })
+})
+
+describe("supports cutting a whole file", () => {
+  const file = `
+// ---cut-start---
+// @filename: setup.ts
+export const a = "123"
+// ---cut-end---
+// @filename: index.ts
+import { a } from "./setup"
+const b = a
+//    ^?
+`
+  const result = twoslasher(file, "ts")
+
+  it("hides the right code", () => {
+    expect(result.code).toEqual(`
+// @filename: index.ts
+import { a } from "./setup"
+const b = a
+`)
+  })
+
+  it("shows the right query results", () => {
+    const bQueryResult = result.queries.find(info => info.line === 4)
+    expect(bQueryResult!.text).toContain("const b")
+  })
+})
+
+describe("uses the last cut when there are many", () => {
+  const file = `
+const a = "123"
+// ---cut---
+const b = "345"
+// ---cut---
+const c = "678"
+`
+  const result = twoslasher(file, "ts")
+
+  it("hides the right code", () => {
+    expect(result.code).toEqual(`const c = "678"\n`)
+  })
+
+  it("shows the right LSP results", () => {
+    expect(result.staticQuickInfos.length).toEqual(1)
+    expect(result.staticQuickInfos[0].start).toEqual(6)
+    expect(result.staticQuickInfos[0].line).toEqual(0)
+  })
+})
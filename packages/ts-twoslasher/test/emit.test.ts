@@ -0,0 +1,66 @@
+import { twoslasher } from "../src/index"
+import { createDefaultMapFromNodeModules } from "@typescript/vfs"
+
+describe("showEmit", () => {
+  const file = `
+// @showEmit
+// @target: ES5
+const greet = async (name: string) => \`Hello \${name}\`
+//    ^?
+const message = greet("world")
+//              ^^^^^
+`
+  const result = twoslasher(file, "ts")
+
+  it("does not include the source map comment when it wasn't asked for", () => {
+    expect(result.code).not.toContain("sourceMappingURL")
+  })
+
+  it("moves queries onto the emitted code", () => {
+    const query = result.queries[0]
+    expect(query.text).toEqual("const greet: (name: string) => Promise<string>")
+
+    const emittedLine = result.code.split("\n")[query.line - 1]
+    expect(emittedLine.slice(query.offset)).toMatch(/^greet = /)
+    expect(result.code.slice(query.start)).toMatch(/^greet = /)
+  })
+
+  it("moves highlights onto the emitted code", () => {
+    const highlight = result.highlights[0]
+    expect(result.code.slice(highlight.offset, highlight.offset + highlight.length)).toEqual("greet")
+    expect(result.code.split("\n")[highlight.line].slice(highlight.start)).toMatch(/^greet\("world"\)/)
+  })
+
+  it("only keeps quick infos for identifiers which are in the emit", () => {
+    const targets = result.staticQuickInfos.map(info => info.targetString)
+    expect(targets).toContain("greet")
+    expect(targets).toContain("name")
+
+    result.staticQuickInfos.forEach(info => {
+      expect(result.code.slice(info.start, info.start + info.length)).toEqual(info.targetString)
+    })
+  })
+
+  it("drops everything when the emitted file has no source map", () => {
+    const mapResult = twoslasher(
+      file.replace("// @showEmit", "// @showEmit\n// @sourceMap\n// @showEmittedFile: index.js.map"),
+      "ts"
+    )
+    expect(mapResult.extension).toEqual("map")
+    expect(mapResult.queries).toEqual([])
+    expect(mapResult.staticQuickInfos).toEqual([])
+  })
+  it("keeps the source map comment when it was asked for", () => {
+    const mapResult = twoslasher(file.replace("// @showEmit", "// @showEmit\n// @sourceMap"), "ts")
+    expect(mapResult.code).toContain("//# sourceMappingURL=index.js.map")
+    expect(mapResult.queries[0].text).toEqual("const greet: (name: string) => Promise<string>")
+  })
+
+  it("does not add source maps to the files written with emit", () => {
+    const fsMap = createDefaultMapFromNodeModules({})
+    twoslasher(file.replace("// @showEmit", "// @showEmit\n// @emit"), "ts", { fsMap })
+
+    expect(fsMap.get("/index.js")).not.toContain("sourceMappingURL")
+    expect(fsMap.has("/index.js.map")).toBe(false)
+  })
+})
@@ -0,0 +1,122 @@
+import { twoslasher, TwoslashError } from "../src/index"
+
+const getError = (code: string, extension = "ts") => {
+  try {
+    twoslasher(code, extension)
+  } catch (error) {
+    if (error instanceof TwoslashError) return error
+    throw error
+  }
+  throw new Error("Did not throw")
+}
+
+it("describes unexpected errors", () => {
+  const file = `
+// @errors: 2322
+const a: string = 123
+a.nope
+`
+  const error = getError(file)
+  expect(error.kind).toEqual("unexpected-errors")
+  expect(error.line).toEqual(1)
+  expect(error.column).toEqual(0)
+
+  expect(error.diagnostics.length).toEqual(1)
+  expect(error.diagnostics[0]).toMatchObject({
+    code: 2339,
+    filename: "index.ts",
+    line: 3,
+    character: 2,
+    length: 4,
+  })
+
+  expect(error.suggestedFix).toEqual({
+    description: "Replace the errors tag with '// @errors: 2322 2339'",
+    line: 1,
+    text: "// @errors: 2322 2339",
+  })
+})
+
+it("suggests adding an errors tag", () => {
+  const file = `
+const a: string = 123
+`
+  const error = getError(file)
+  expect(error.kind).toEqual("unexpected-errors")
+  // Without an errors tag, the error points at the first unexpected diagnostic
+  expect(error.line).toEqual(1)
+  expect(error.column).toEqual(6)
+  expect(error.suggestedFix).toEqual({
+    description: "Add '// @errors: 2322'",
+    line: undefined,
+    text: "// @errors: 2322",
+  })
+})
+
+it("maps diagnostics back onto the original sample", () => {
+  const file = `
+// @filename: a.ts
+// @strict: true
+export const a = "123"
+
+// @filename: b.ts
+import { a } from "./a"
+const b: number = a
+//    ^?
+const c: { x: { y: string } } = { x: { y: 1 } }
+`
+  const error = getError(file)
+  expect(error.diagnostics.map(d => [d.filename, d.code, d.line, d.character])).toEqual([
+    ["b.ts", 2322, 7, 6],
+    ["b.ts", 2322, 9, 39],
+  ])
+  expect(error.line).toEqual(7)
+  expect(error.column).toEqual(6)
+})
+
+it("includes the whole chain of messages", () => {
+  const file = `
+const a: { x: { y: string } } = { x: { y: 1 } } as { x: { y: number } }
+`
+  const error = getError(file)
+  expect(error.diagnostics[0].message.split("\n").length).toBeGreaterThan(1)
+})
+
+it("describes typos", () => {
+  const file = `
+const a = "123"
+// @errors 2322
+`
+  const error = getError(file)
+  expect(error.kind).toEqual("typo")
+  expect(error.line).toEqual(2)
+  expect(error.suggestedFix!.text).toEqual("// @errors: 2322")
+})
+
+it("points at invalid compiler flags", () => {
+  const file = `
+// @strict: true
+// @notAFlag: true
+const a = "123"
+`
+  const error = getError(file)
+  expect(error.kind).toEqual("invalid-compiler-flag")
+  expect(error.line).toEqual(2)
+  expect(error.column).toEqual(0)
+})
+
+it("points at invalid compiler values", () => {
+  const file = `
+// @target: nope
+const a = "123"
+`
+  const error = getError(file)
+  expect(error.kind).toEqual("invalid-compiler-value")
+  expect(error.line).toEqual(1)
+})
+
+it("describes unknown extensions", () => {
+  const error = getError(`const a = "123"`, "rs")
+  expect(error.kind).toEqual("unknown-extension")
+  expect(error.line).toBeUndefined()
+})
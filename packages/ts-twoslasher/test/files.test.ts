@@ -0,0 +1,90 @@
+import { twoslasher } from "../src/index"
+
+describe("splits a multi-file sample into files", () => {
+  const file = `
+// @filename: file-with-export.ts
+export const helloWorld = "Example string"
+
+// @filename: index.ts
+import { helloWorld } from "./file-with-export"
+const a: number = helloWorld
+//    ^?
+`
+  const result = twoslasher(file, "ts", { defaultOptions: { noErrorValidation: true } })
+
+  it("has the right files", () => {
+    expect(result.files.map(f => f.filename)).toEqual(["file-with-export.ts", "index.ts"])
+    expect(result.files[0].code).toEqual(`export const helloWorld = "Example string"\n`)
+    expect(result.files[1].code).toEqual(
+      `import { helloWorld } from "./file-with-export"\nconst a: number = helloWorld\n`
+    )
+    expect(result.files[1].extension).toEqual("ts")
+  })
+
+  it("moves the LSP results into the file", () => {
+    const [exporter, index] = result.files
+    expect(exporter.staticQuickInfos.find(info => info.text.includes("const a"))).toBeUndefined()
+
+    const aLSPResult = index.staticQuickInfos.find(info => info.text.includes("const a"))!
+    expect(aLSPResult.line).toEqual(1)
+    expect(index.code.substr(aLSPResult.start, aLSPResult.length)).toEqual("a")
+  })
+
+  it("moves the queries into the file", () => {
+    const index = result.files[1]
+    expect(index.queries.length).toEqual(1)
+    expect(index.queries[0].text).toContain("const a: number")
+    expect(index.code.substr(index.queries[0].start, 1)).toEqual("a")
+  })
+
+  it("moves the errors into the file", () => {
+    const [exporter, index] = result.files
+    expect(exporter.errors.length).toEqual(0)
+    expect(index.errors.length).toEqual(1)
+
+    const error = index.errors[0]
+    expect(error.line).toEqual(1)
+    expect(index.code.substr(error.start!, error.length)).toEqual("a")
+  })
+})
+
+it("has a single file for a sample without filenames", () => {
+  const file = `
+const a = "123"
+//    ^^^
+`
+  const result = twoslasher(file, "ts")
+  expect(result.files.length).toEqual(1)
+  expect(result.files[0].filename).toEqual("index.ts")
+  expect(result.files[0].code).toEqual(result.code)
+  expect(result.files[0].highlights).toEqual(result.highlights)
+})
+
+it("does not include files which have been cut", () => {
+  const file = `
+// @filename: setup.ts
+export const a = "123"
+// @filename: index.ts
+import { a } from "./setup"
+// ---cut---
+const b = a
+`
+  const result = twoslasher(file, "ts")
+  expect(result.files.map(f => f.filename)).toEqual(["index.ts"])
+  expect(result.files[0].staticQuickInfos.map(info => info.targetString)).toEqual(["b", "a"])
+})
+
+it("keeps the filename of a file when the cut hides its @filename", () => {
+  const file = `
+// @filename: a.ts
+export const a = "123"
+// @filename: b.ts
+import { a } from "./a"
+// ---cut---
+const x = a
+`
+  const result = twoslasher(file, "ts")
+  expect(result.code).toEqual("const x = a\n")
+  expect(result.files.map(f => [f.filename, f.code])).toEqual([["b.ts", "const x = a\n"]])
+  expect(result.files[0].staticQuickInfos.map(info => info.targetString)).toEqual(["x", "a"])
+})
@@ -0,0 +1,100 @@
+import { fixTwoslashErrorsInMarkdown } from "../src/index"
+
+const fence = "```"
+
+it("adds missing error codes", () => {
+  const markdown = `# Hello
+
+${fence}ts twoslash
+// @errors: 2322
+const a: string = 123
+a.nope
+${fence}
+`
+  const result = fixTwoslashErrorsInMarkdown(markdown)
+  expect(result.changes).toEqual([{ line: 2, before: [2322], after: [2322, 2339] }])
+  expect(result.markdown).toContain("// @errors: 2322 2339\nconst a")
+})
+
+it("adds an errors tag when there isn't one", () => {
+  const markdown = `${fence}ts twoslash
+const a: string = 123
+${fence}`
+  const result = fixTwoslashErrorsInMarkdown(markdown)
+  expect(result.markdown).toEqual(`${fence}ts twoslash
+// @errors: 2322
+const a: string = 123
+${fence}`)
+})
+
+it("removes an errors tag which is not needed", () => {
+  const markdown = `${fence}ts twoslash
+// @errors: 2322
+const a: string = "123"
+${fence}`
+  const result = fixTwoslashErrorsInMarkdown(markdown)
+  expect(result.changes).toEqual([{ line: 0, before: [2322], after: [] }])
+  expect(result.markdown).toEqual(`${fence}ts twoslash
+const a: string = "123"
+${fence}`)
+})
+
+it("leaves correct samples and other code alone", () => {
+  const markdown = `${fence}ts twoslash
+// @errors: 2322
+const a: string = 123
+${fence}
+
+${fence}ts
+const b: string = 123
+${fence}
+
+${fence}ts twoslash
+// @noErrors
+const c: string = 123
+${fence}`
+  const result = fixTwoslashErrorsInMarkdown(markdown)
+  expect(result.changes).toEqual([])
+  expect(result.markdown).toEqual(markdown)
+})
+
+it("fixes many samples", () => {
+  const markdown = `${fence}ts twoslash
+const a: string = 123
+${fence}
+
+${fence}ts twoslash
+// @errors: 2339
+const b: string = 123
+${fence}`
+  const result = fixTwoslashErrorsInMarkdown(markdown)
+  expect(result.changes.map(c => c.line)).toEqual([0, 4])
+  expect(result.markdown.split("// @errors: 2322").length).toEqual(3)
+})
+
+it("reports samples which fail for other reasons", () => {
+  const markdown = `${fence}ts twoslash
+// @notAFlag: true
+const a = 123
+${fence}`
+  const result = fixTwoslashErrorsInMarkdown(markdown)
+  expect(result.changes).toEqual([])
+  expect(result.failures.length).toEqual(1)
+  expect(result.failures[0].error.kind).toEqual("invalid-compiler-flag")
+})
+
+it("leaves samples which skip error validation alone", () => {
+  const markdown = `${fence}ts twoslash
+// @noErrorValidation
+const a: string = 123
+${fence}
+
+${fence}ts twoslash
+// @noErrors
+const b: string = 123
+${fence}`
+  const result = fixTwoslashErrorsInMarkdown(markdown)
+  expect(result.changes).toEqual([])
+  expect(result.failures).toEqual([])
+  expect(result.markdown).toEqual(markdown)
+})
@@ -103,5 +103,10 @@ const cleanFixture = (ts: TwoSlashReturn) => {
   ts.staticQuickInfos.forEach(info => {
     info.text = info.text.replace(new RegExp(wd, "g"), "[home]")
   })
+  ts.files.forEach(file => {
+    file.staticQuickInfos.forEach(info => {
+      info.text = info.text.replace(new RegExp(wd, "g"), "[home]")
+    })
+  })
   return ts
 }
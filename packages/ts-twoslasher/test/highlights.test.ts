@@ -9,3 +9,61 @@ const b = "345"
   const result = twoslasher(file, "ts")
   expect(result.highlights.length).toEqual(1)
 })
+
+it("supports annotating something", () => {
+  const file = `
+const a = "123"
+//    ^ explain: This is a string
+const b = "345"
+//        ^^^^^ explain: So is this
+`
+  const result = twoslasher(file, "ts")
+  expect(result.highlights.length).toEqual(0)
+  expect(result.annotations.length).toEqual(2)
+  expect(result.code).not.toContain("explain")
+
+  const [a, b] = result.annotations
+  expect(a).toEqual({ text: "This is a string", start: 7, length: 1, line: 1, character: 6 })
+  expect(result.code.substr(a.start, a.length)).toEqual("a")
+
+  expect(b.text).toEqual("So is this")
+  expect(b.line).toEqual(2)
+  expect(result.code.substr(b.start, b.length)).toEqual(`"345"`)
+})
+
+it("supports annotations in cut multi-file code", () => {
+  const file = `
+// @filename: index.ts
+const a = "123"
+// @filename: main-file.ts
+// ---cut---
+const b = "345"
+//    ^ explain: Only this one
+`
+  const result = twoslasher(file, "ts")
+  expect(result.annotations.length).toEqual(1)
+  expect(result.annotations[0].line).toEqual(0)
+  expect(result.code.substr(result.annotations[0].start, 1)).toEqual("b")
+})
+
+it("supports annotating the next line with @annotate", () => {
+  const file = `
+const a = "123"
+// @annotate: The whole of this line
+  const b = "345"
+`
+  const result = twoslasher(file, "ts")
+  expect(result.code).not.toContain("@annotate")
+  expect(result.annotations).toEqual([{ text: "The whole of this line", start: 19, length: 15, line: 2, character: 2 }])
+  expect(result.code.substr(result.annotations[0].start, 15)).toEqual(`const b = "345"`)
+})
+
+it("leaves @annotate alone when it is a custom tag", () => {
+  const file = `
+// @annotate: left - Some text
+const a = "123"
+`
+  const result = twoslasher(file, "ts", { customTags: ["annotate"] })
+  expect(result.annotations).toEqual([])
+  expect(result.tags).toEqual([{ name: "annotate", line: 1, annotation: "left - Some text" }])
+})
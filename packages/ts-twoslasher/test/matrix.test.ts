@@ -0,0 +1,100 @@
+import { twoslasherMatrix } from "../src/index"
+import { createDefaultMapFromNodeModules } from "@typescript/vfs"
+import ts from "typescript"
+import { copyFileSync, mkdtempSync, readdirSync, appendFileSync } from "fs"
+import { tmpdir } from "os"
+import { dirname, join } from "path"
+
+// Pretends to be a version of TypeScript which does not raise any semantic errors,
+// and which prints quick info differently
+const tsWithoutErrors: typeof ts = {
+  ...ts,
+  createLanguageService: (...args: Parameters<typeof ts.createLanguageService>) => {
+    const ls = ts.createLanguageService(...args)
+    return {
+      ...ls,
+      getSemanticDiagnostics: () => [],
+      getQuickInfoAtPosition: (fileName: string, position: number) => {
+        const info = ls.getQuickInfoAtPosition(fileName, position)
+        if (!info) return info
+        return { ...info, displayParts: [{ kind: "text", text: "different" }] }
+      },
+    }
+  },
+}
+
+describe("runs against many versions", () => {
+  const file = `
+const a: string = 123
+`
+  const result = twoslasherMatrix(file, "ts", { tsModules: { "4.3": ts, "4.4": tsWithoutErrors } })
+
+  it("has results for each version", () => {
+    expect(Object.keys(result.results)).toEqual(["4.3", "4.4"])
+    expect(result.results["4.3"].errors.length).toEqual(1)
+    expect(result.results["4.4"].errors.length).toEqual(0)
+  })
+
+  it("reports errors which only happen in some versions", () => {
+    expect(result.differences.errors.length).toEqual(1)
+
+    const error = result.differences.errors[0]
+    expect(error.code).toEqual(2322)
+    expect(error.versions).toEqual(["4.3"])
+    expect(error.renderedMessages["4.3"]).toContain("is not assignable to type 'string'")
+  })
+
+  it("reports quick infos which are different", () => {
+    expect(result.differences.staticQuickInfos.length).toEqual(1)
+
+    const info = result.differences.staticQuickInfos[0]
+    expect(info.targetString).toEqual("a")
+    expect(info.texts).toEqual({ "4.3": "const a: string", "4.4": "different" })
+  })
+
+  it("includes the emit", () => {
+    expect(result.emit["4.3"]).toContain("const a = 123")
+    expect(result.differences.emit).toBeFalsy()
+  })
+})
+
+it("has no differences for the same version", () => {
+  const file = `
+// @errors: 2322
+const a: string = 123
+`
+  const result = twoslasherMatrix(file, "ts", { tsModules: { one: ts, two: ts } })
+  expect(result.differences).toEqual({ errors: [], staticQuickInfos: [], emit: false })
+})
+
+describe("uses the lib files from each version", () => {
+  // Pretends to be a version of TypeScript which was installed with an extra global in its lib files
+  const libFolder = mkdtempSync(join(tmpdir(), "twoslash-matrix-"))
+  const tsLibFolder = dirname(ts.getDefaultLibFilePath({}))
+  readdirSync(tsLibFolder)
+    .filter(name => name.startsWith("lib") && name.endsWith(".d.ts"))
+    .forEach(name => copyFileSync(join(tsLibFolder, name), join(libFolder, name)))
+  appendFileSync(join(libFolder, "lib.es5.d.ts"), "\ndeclare const onlyInNewLibs: string\n")
+
+  const tsWithNewLibs: typeof ts = {
+    ...ts,
+    getDefaultLibFilePath: options => join(libFolder, ts.getDefaultLibFileName(options)),
+  }
+
+  const file = `
+const a = onlyInNewLibs
+`
+
+  it("reads the libs from the folder of each version", () => {
+    const result = twoslasherMatrix(file, "ts", { tsModules: { old: ts, new: tsWithNewLibs } })
+    expect(result.differences.errors.map(e => [e.code, e.versions])).toEqual([[2304, ["old"]]])
+  })
+
+  it("swaps the lib files in an fsMap for each version", () => {
+    const fsMap = createDefaultMapFromNodeModules({ target: ts.ScriptTarget.ES2016 })
+    const result = twoslasherMatrix(file, "ts", { tsModules: { old: ts, new: tsWithNewLibs }, fsMap })
+
+    expect(result.differences.errors.map(e => [e.code, e.versions])).toEqual([[2304, ["old"]]])
+    expect(fsMap.get("/lib.es5.d.ts")).not.toContain("onlyInNewLibs")
+  })
+})
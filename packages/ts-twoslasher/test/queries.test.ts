@@ -79,3 +79,52 @@ const b = "345"
   const bQueryResult = result.queries.find(info => info.line === 5)
   expect(bQueryResult!.text).toContain("const b:")
 })
+
+it("supports detailed queries", () => {
+  const file = `
+// @detailedQueries
+/**
+ * Says hello
+ * @deprecated use something else
+ */
+const a = "123"
+//    ^?
+  `
+  const result = twoslasher(file, "ts")
+  const aQueryResult = result.queries.find(info => info.kind === "query")!
+
+  expect(aQueryResult.displayParts).toContainEqual({ kind: "keyword", text: "const" })
+  expect(aQueryResult.displayParts).toContainEqual({ kind: "localName", text: "a" })
+  expect(aQueryResult.displayParts!.map(p => p.text).join("")).toEqual(aQueryResult.text)
+  expect(aQueryResult.jsDocTags).toEqual([{ name: "deprecated", text: "use something else" }])
+})
+
+it("supports detailed completions", () => {
+  const file = `
+// @detailedQueries
+console.log
+//       ^|
+  `
+  const result = twoslasher(file, "ts")
+  const completions = result.queries.find(info => info.kind === "completions")!
+
+  const logDetails = completions.completionsDetails!.find(c => c.name === "log")!
+  expect(logDetails.kind).toEqual("method")
+  expect(logDetails.kindModifiers).toEqual("declare")
+  expect(logDetails.displayParts.map(p => p.text).join("")).toContain("Console.log")
+})
+
+it("does not include details by default", () => {
+  const file = `
+console.log
+//       ^|
+const a = "123"
+//    ^?
+  `
+  const result = twoslasher(file, "ts")
+  result.queries.forEach(q => {
+    expect(q.completionsDetails).toBeUndefined()
+    expect(q.displayParts).toBeUndefined()
+    expect(q.jsDocTags).toBeUndefined()
+  })
+})
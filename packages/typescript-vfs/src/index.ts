@@ -1,7 +1,14 @@
 type System = import("typescript").System
 type CompilerOptions = import("typescript").CompilerOptions
 type CustomTransformers = import("typescript").CustomTransformers
+type DocumentRegistry = import("typescript").DocumentRegistry
+type Diagnostic = import("typescript").Diagnostic
+type ParsedCommandLine = import("typescript").ParsedCommandLine
+type FileWatcherCallback = import("typescript").FileWatcherCallback
+type DirectoryWatcherCallback = import("typescript").DirectoryWatcherCallback
+type EmitAndSemanticDiagnosticsBuilderProgram = import("typescript").EmitAndSemanticDiagnosticsBuilderProgram
 type LanguageServiceHost = import("typescript").LanguageServiceHost
+type LanguageService = import("typescript").LanguageService
 type CompilerHost = import("typescript").CompilerHost
 type SourceFile = import("typescript").SourceFile
 type TS = typeof import("typescript")
@@ -21,6 +28,10 @@ export interface VirtualTypeScriptEnvironment {
   getSourceFile: (fileName: string) => import("typescript").SourceFile | undefined
   createFile: (fileName: string, content: string) => void
   updateFile: (fileName: string, content: string, replaceTextSpan?: import("typescript").TextSpan) => void
+  deleteFile: (fileName: string) => void
+  renameFile: (oldFileName: string, newFileName: string) => void
+  setRootFiles: (rootFiles: string[]) => void
+  updateCompilerOptions: (compilerOptions: CompilerOptions) => void
 }
 
 /**
@@ -32,6 +43,8 @@ export interface VirtualTypeScriptEnvironment {
  * @param ts a copy pf the TypeScript module
  * @param compilerOptions the options for this compiler run
  * @param customTransformers custom transformers for this compiler run
+ * @param documentRegistry a registry of parsed files to share with other environments, see ts.createDocumentRegistry
+ * @param plugins language service plugins to wrap the language service with, see `VirtualLanguageServicePlugin`
  */
 
 export function createVirtualTypeScriptEnvironment(
@@ -39,25 +52,29 @@ export function createVirtualTypeScriptEnvironment(
   rootFiles: string[],
   ts: TS,
   compilerOptions: CompilerOptions = {},
-  customTransformers?: CustomTransformers
+  customTransformers?: CustomTransformers,
+  documentRegistry?: DocumentRegistry,
+  plugins: VirtualLanguageServicePlugin[] = []
 ): VirtualTypeScriptEnvironment {
   const mergedCompilerOpts = { ...defaultCompilerOptions(ts), ...compilerOptions }
 
-  const { languageServiceHost, updateFile } = createVirtualLanguageServiceHost(
-    sys,
-    rootFiles,
-    mergedCompilerOpts,
-    ts,
-    customTransformers
-  )
-  const languageService = ts.createLanguageService(languageServiceHost)
-  const diagnostics = languageService.getCompilerOptionsDiagnostics()
+  const {
+    languageServiceHost,
+    updateFile,
+    deleteFile,
+    setRootFiles,
+    updateCompilerOptions,
+  } = createVirtualLanguageServiceHost(sys, rootFiles, mergedCompilerOpts, ts, customTransformers, documentRegistry)
+  const baseLanguageService = ts.createLanguageService(languageServiceHost, documentRegistry)
+  const diagnostics = baseLanguageService.getCompilerOptionsDiagnostics()
 
   if (diagnostics.length) {
     const compilerHost = createVirtualCompilerHost(sys, compilerOptions, ts)
     throw new Error(ts.formatDiagnostics(diagnostics, compilerHost.compilerHost))
   }
 
+  const languageService = applyLanguageServicePlugins(baseLanguageService, languageServiceHost, sys, ts, plugins)
+
   return {
     // @ts-ignore
     name: "vfs",
@@ -66,7 +83,8 @@ export function createVirtualTypeScriptEnvironment(
     getSourceFile: fileName => languageService.getProgram()?.getSourceFile(fileName),
 
     createFile: (fileName, content) => {
-      updateFile(ts.createSourceFile(fileName, content, mergedCompilerOpts.target!, false))
+      const target = languageServiceHost.getCompilationSettings().target!
+      updateFile(ts.createSourceFile(fileName, content, target, false))
     },
     updateFile: (fileName, content, optPrevTextSpan) => {
       const prevSourceFile = languageService.getProgram()!.getSourceFile(fileName)
@@ -88,7 +106,692 @@ export function createVirtualTypeScriptEnvironment(
 
       updateFile(newSourceFile)
     },
+    deleteFile,
+    renameFile: (oldFileName, newFileName) => {
+      const content = sys.readFile(oldFileName)
+      if (content === undefined) {
+        throw new Error("Did not find a file to rename for " + oldFileName)
+      }
+
+      // Root files stay as root files under their new name
+      const rootFiles = languageServiceHost.getScriptFileNames()
+      const wasRootFile = rootFiles.includes(oldFileName)
+
+      deleteFile(oldFileName)
+      const target = languageServiceHost.getCompilationSettings().target!
+      updateFile(ts.createSourceFile(newFileName, content, target, false))
+      if (!wasRootFile) {
+        setRootFiles(languageServiceHost.getScriptFileNames().filter(f => f !== newFileName))
+      }
+    },
+    setRootFiles,
+    updateCompilerOptions,
+  }
+}
+
+/**
+ * The parts of tsserver's `PluginCreateInfo` which a language service plugin gets in the vfs. There is
+ * no tsserver, so `project` only has the parts of a tsserver `Project` which plugins commonly use.
+ */
+export interface VirtualPluginCreateInfo<Config = unknown> {
+  project: {
+    projectService: { logger: { info(message: string): void; msg(message: string): void; loggingEnabled(): boolean } }
+    getCompilerOptions(): CompilerOptions
+    getCurrentDirectory(): string
+    getProjectName(): string
+    getScriptFileNames(): string[]
+    getLanguageService(): LanguageService
+  }
+  languageService: LanguageService
+  languageServiceHost: LanguageServiceHost
+  serverHost: System
+  config: Config
+}
+
+/** A tsserver plugin module, this has the same shape as `ts.server.PluginModule` */
+export interface VirtualPluginModule<Config = unknown> {
+  create(info: VirtualPluginCreateInfo<Config>): LanguageService
+  onConfigurationChanged?(config: Config): void
+}
+
+/** The function a tsserver plugin package exports, this has the same shape as `ts.server.PluginModuleFactory` */
+export type VirtualPluginModuleFactory<Config = unknown> = (modules: { typescript: TS }) => VirtualPluginModule<Config>
+
+/** A language service plugin to use in a virtual environment */
+export interface VirtualLanguageServicePlugin<Config = unknown> {
+  /** The name of the plugin, which matches its entry in the `plugins` compiler option */
+  name: string
+  factory: VirtualPluginModuleFactory<Config>
+  /** The config for the plugin, which is used instead of its entry in the `plugins` compiler option */
+  config?: Config
+}
+
+/**
+ * Wraps a language service with plugins, like tsserver does. The plugins in the `plugins` compiler option
+ * are used in order, using the factory with the same name, then any other factories which were passed in
+ * are used. Like tsserver, plugins in the compiler option which don't have a factory are skipped.
+ */
+const applyLanguageServicePlugins = (
+  languageService: LanguageService,
+  languageServiceHost: LanguageServiceHost,
+  sys: System,
+  ts: TS,
+  plugins: VirtualLanguageServicePlugin[]
+) => {
+  const configured = (languageServiceHost.getCompilationSettings().plugins || []) as { name: string }[]
+  const factories = new Map(plugins.map(plugin => [plugin.name, plugin] as const))
+
+  const toApply: { factory: VirtualPluginModuleFactory; config: unknown }[] = []
+  configured.forEach(config => {
+    const plugin = factories.get(config.name)
+    factories.delete(config.name)
+    if (plugin) {
+      toApply.push({ factory: plugin.factory, config: plugin.config ?? config })
+    } else {
+      debugLog(`Skipping the language service plugin ${config.name}, because there is no factory for it`)
+    }
+  })
+  factories.forEach(plugin => toApply.push({ factory: plugin.factory, config: plugin.config ?? { name: plugin.name } }))
+
+  let current = languageService
+  const logger = { info: debugLog, msg: debugLog, loggingEnabled: () => !!shouldDebug }
+  const project: VirtualPluginCreateInfo["project"] = {
+    projectService: { logger },
+    getCompilerOptions: () => languageServiceHost.getCompilationSettings(),
+    getCurrentDirectory: () => sys.getCurrentDirectory(),
+    getProjectName: () => "vfs",
+    getScriptFileNames: () => languageServiceHost.getScriptFileNames(),
+    getLanguageService: () => current,
+  }
+
+  toApply.forEach(({ factory, config }) => {
+    const pluginModule = factory({ typescript: ts })
+    const wrapped = pluginModule.create({
+      project,
+      languageService: current,
+      languageServiceHost,
+      serverHost: sys,
+      config,
+    })
+
+    // Like tsserver, fill in anything the plugin left out from the language service it wrapped
+    const previous = current
+    const fillIn = <Method extends keyof LanguageService>(method: Method) => {
+      if (!(method in wrapped)) wrapped[method] = previous[method]
+    }
+    Object.keys(previous).forEach(key => fillIn(key as keyof LanguageService))
+    current = wrapped
+  })
+
+  return current
+}
+
+/**
+ * Loads a language service plugin from `node_modules` in the System, to pass to `createVirtualTypeScriptEnvironment`.
+ * This runs the plugin's JavaScript (and anything it requires from the System) like node would, so only use it
+ * for files you trust. Requests for `typescript` get the copy of TypeScript being used.
+ *
+ * @param sys the System with the plugin in its `node_modules`, e.g. from `createSystem`
+ * @param pluginName the name of the plugin's package, which matches its entry in the `plugins` compiler option
+ * @param ts a copy of the TypeScript module
+ * @throws when the plugin can't be found or throws while it is loading
+ */
+export function loadPluginFromSystem(sys: System, pluginName: string, ts: TS): VirtualLanguageServicePlugin {
+  const exports = requireFromSystem(sys, ts, sys.getCurrentDirectory(), pluginName, new Map())
+  return { name: pluginName, factory: exports.default || exports }
+}
+
+/** A small CommonJS `require` which loads JavaScript from the System */
+const requireFromSystem = (
+  sys: System,
+  ts: TS,
+  fromDirectory: string,
+  moduleName: string,
+  cache: Map<string, any>
+): any => {
+  if (moduleName === "typescript" || moduleName === "typescript/lib/tsserverlibrary") return ts
+
+  const fileName = resolveJavaScriptModule(sys, fromDirectory, moduleName)
+  if (!fileName) {
+    throw new Error(`Could not find the module ${moduleName} from ${fromDirectory} in the virtual file system`)
+  }
+  if (cache.has(fileName)) return cache.get(fileName).exports
+
+  const module = { exports: {} as any }
+  cache.set(fileName, module)
+
+  const directory = normalizePath(fileName.slice(0, fileName.lastIndexOf("/") + 1))
+  const contents = sys.readFile(fileName)!
+  if (fileName.endsWith(".json")) {
+    module.exports = JSON.parse(contents)
+  } else {
+    const localRequire = (name: string) => requireFromSystem(sys, ts, directory, name, cache)
+    // Run the file like node runs a CommonJS module, with the same arguments
+    // eslint-disable-next-line no-new-func
+    const run = new Function("module", "exports", "require", "__filename", "__dirname", contents)
+    run(module, module.exports, localRequire, fileName, directory)
+  }
+
+  return module.exports
+}
+
+/** Finds the file for a require, using node's rules for relative paths, package mains and node_modules folders */
+const resolveJavaScriptModule = (sys: System, fromDirectory: string, moduleName: string): string | undefined => {
+  const resolveFileOrFolder = (path: string): string | undefined => {
+    const file = [path, path + ".js", path + ".json"].find(fileName => sys.fileExists(fileName))
+    if (file) return file
+
+    const packageJSON = sys.readFile(path + "/package.json")
+    const main = packageJSON && (JSON.parse(packageJSON).main as string | undefined)
+    if (main) {
+      const mainFile = resolveFileOrFolder(normalizePath(path + "/" + main))
+      if (mainFile) return mainFile
+    }
+    return [path + "/index.js", path + "/index.json"].find(fileName => sys.fileExists(fileName))
+  }
+
+  if (/^(\.{1,2}(\/|$)|\/)/.test(moduleName)) {
+    return resolveFileOrFolder(
+      normalizePath(moduleName.startsWith("/") ? moduleName : fromDirectory + "/" + moduleName)
+    )
+  }
+
+  let directory = normalizePath(fromDirectory)
+  while (true) {
+    const found = resolveFileOrFolder(normalizePath(directory + "/node_modules/" + moduleName))
+    if (found) return found
+
+    const parent = normalizePath(directory + "/..")
+    if (parent === directory) return undefined
+    directory = parent
+  }
+}
+
+/** An error for when a tsconfig can't be loaded, the problems TypeScript found are in `diagnostics` */
+export class VirtualTypeScriptConfigError extends Error {
+  constructor(message: string, public configFileName: string, public diagnostics: readonly Diagnostic[]) {
+    super(message)
+    this.name = "VirtualTypeScriptConfigError"
+  }
+}
+
+/**
+ * Reads a tsconfig from the System using TypeScript's own parser, this follows `extends` (including
+ * into packages in node_modules) and turns `files`, `include` and `exclude` into a list of root files.
+ *
+ * @param sys an object which conforms to the TS Sys (a shim over read/write access to the fs)
+ * @param configFileName the path to the tsconfig, e.g. "/tsconfig.json"
+ * @param ts a copy of the TypeScript module
+ * @throws {VirtualTypeScriptConfigError} when the tsconfig has any errors
+ */
+export function parseVirtualConfigFile(sys: System, configFileName: string, ts: TS): ParsedCommandLine {
+  const formatHost = {
+    getCanonicalFileName: (fileName: string) => fileName,
+    getCurrentDirectory: () => sys.getCurrentDirectory(),
+    getNewLine: () => sys.newLine,
+  }
+
+  const throwForDiagnostics = (diagnostics: readonly Diagnostic[]): never => {
+    const message = ts.formatDiagnostics(diagnostics, formatHost)
+    throw new VirtualTypeScriptConfigError(message, configFileName, diagnostics)
+  }
+
+  const host: import("typescript").ParseConfigFileHost = {
+    ...sys,
+    onUnRecoverableConfigFileDiagnostic: diagnostic => throwForDiagnostics([diagnostic]),
+  }
+
+  const config = ts.getParsedCommandLineOfConfigFile(configFileName, {}, host)!
+  if (config.errors.length) throwForDiagnostics(config.errors)
+
+  return config
+}
+
+/**
+ * Makes a virtual copy of the TypeScript environment for a tsconfig in the System. The compiler
+ * options all come from the tsconfig, and the root files are the files which it includes.
+ *
+ * @param sys an object which conforms to the TS Sys (a shim over read/write access to the fs)
+ * @param configFileName the path to the tsconfig, e.g. "/tsconfig.json"
+ * @param ts a copy of the TypeScript module
+ * @param customTransformers custom transformers for this compiler run
+ * @param documentRegistry a registry of parsed files to share with other environments, see ts.createDocumentRegistry
+ * @param plugins language service plugins to wrap the language service with, see `VirtualLanguageServicePlugin`
+ * @throws {VirtualTypeScriptConfigError} when the tsconfig has any errors
+ */
+export function createVirtualTypeScriptEnvironmentFromConfig(
+  sys: System,
+  configFileName: string,
+  ts: TS,
+  customTransformers?: CustomTransformers,
+  documentRegistry?: DocumentRegistry,
+  plugins?: VirtualLanguageServicePlugin[]
+): VirtualTypeScriptEnvironment {
+  const config = parseVirtualConfigFile(sys, configFileName, ts)
+
+  // The tsconfig decides the compiler options, rather than the defaults for the vfs
+  const compilerOptions: CompilerOptions = { ...config.options }
+  Object.keys(defaultCompilerOptions(ts)).forEach(key => {
+    if (!(key in compilerOptions)) compilerOptions[key] = undefined
+  })
+
+  return createVirtualTypeScriptEnvironment(
+    sys,
+    config.fileNames,
+    ts,
+    compilerOptions,
+    customTransformers,
+    documentRegistry,
+    plugins
+  )
+}
+
+/** The results for one project from `buildVirtualSolution` */
+export interface VirtualProjectBuildResult {
+  /** The path to the tsconfig for the project */
+  configFileName: string
+  /** Whether the build for this project worked */
+  exitStatus: import("typescript").ExitStatus
+  /** The errors from the tsconfig, type checking and emitting this project */
+  diagnostics: Diagnostic[]
+  /** The files which were written back into the System, including the `.tsbuildinfo` */
+  emittedFiles: string[]
+}
+
+/** The results from `buildVirtualSolution` */
+export interface VirtualSolutionBuildResult {
+  /** Whether the whole build worked */
+  exitStatus: import("typescript").ExitStatus
+  /** Each project which needed building, projects which are up to date are skipped */
+  projects: VirtualProjectBuildResult[]
+  /** Every diagnostic from the build, including ones which don't belong to a project (like a missing reference) */
+  diagnostics: Diagnostic[]
+}
+
+/**
+ * Runs a `tsc --build` style build of projects with `references`, entirely inside the System. The outputs
+ * and `.tsbuildinfo` files are written back through the System, so running it again will only build
+ * the projects which have changed since the last run.
+ *
+ * @param sys an object which conforms to the TS Sys, e.g. from `createSystem`
+ * @param rootConfigFileNames the tsconfigs to build, their references are built first
+ * @param ts a copy of the TypeScript module
+ * @param buildOptions options for the build, like `force` or `dry`
+ */
+export function buildVirtualSolution(
+  sys: System,
+  rootConfigFileNames: string[],
+  ts: TS,
+  buildOptions: import("typescript").BuildOptions = {}
+): VirtualSolutionBuildResult {
+  const diagnostics: Diagnostic[] = []
+  let currentProject: VirtualProjectBuildResult | undefined
+
+  // Keep track of the files each project writes
+  const buildSys: System = {
+    ...sys,
+    writeFile: (fileName, contents, writeByteOrderMark) => {
+      if (currentProject) currentProject.emittedFiles.push(fileName)
+      sys.writeFile(fileName, contents, writeByteOrderMark)
+    },
+  }
+
+  const host = ts.createSolutionBuilderHost(
+    buildSys,
+    ts.createEmitAndSemanticDiagnosticsBuilderProgram,
+    diagnostic => {
+      diagnostics.push(diagnostic)
+      if (currentProject) currentProject.diagnostics.push(diagnostic)
+    },
+    () => {}
+  )
+
+  // The lib files live in the root of the vfs, rather than next to the TypeScript module
+  host.getDefaultLibLocation = () => "/"
+  host.getDefaultLibFileName = options => "/" + ts.getDefaultLibFileName(options)
+
+  const builder = ts.createSolutionBuilder(host, rootConfigFileNames, buildOptions)
+  const projects: VirtualProjectBuildResult[] = []
+
+  let project = builder.getNextInvalidatedProject()
+  while (project) {
+    currentProject = {
+      configFileName: project.project,
+      exitStatus: ts.ExitStatus.Success,
+      diagnostics: [],
+      emittedFiles: [],
+    }
+    projects.push(currentProject)
+
+    currentProject.exitStatus = project.done()
+    currentProject = undefined
+    project = builder.getNextInvalidatedProject()
+  }
+
+  // Diagnostics which weren't reported during a project, like a reference to a missing tsconfig, are also errors
+  const hasErrors = diagnostics.some(d => d.category === ts.DiagnosticCategory.Error)
+  const failedProject = projects.find(p => p.exitStatus !== ts.ExitStatus.Success)
+  const exitStatus = failedProject
+    ? failedProject.exitStatus
+    : hasErrors
+    ? ts.ExitStatus.DiagnosticsPresent_OutputsSkipped
+    : ts.ExitStatus.Success
+
+  return { exitStatus, projects, diagnostics }
+}
+
+/** Something which changed in a `createVirtualWatchProgram`, the `kind` says which */
+export type VirtualWatchEvent =
+  /** A new program was made, after a change to a file or on the first run */
+  | { kind: "program"; program: EmitAndSemanticDiagnosticsBuilderProgram }
+  /** The diagnostics for the whole program are different to the last program's */
+  | { kind: "diagnostics"; diagnostics: Diagnostic[] }
+  /** Files were emitted back into the System, only the files affected by a change are re-emitted */
+  | { kind: "emit"; files: string[] }
+  /** Making a program on the next tick threw an error, this includes errors thrown by listeners */
+  | { kind: "error"; error: unknown }
+
+export interface VirtualWatchProgram {
+  /** The watch program from TypeScript */
+  watchProgram: import("typescript").WatchOfFilesAndCompilerOptions<EmitAndSemanticDiagnosticsBuilderProgram>
+  /** The latest program */
+  getProgram: () => EmitAndSemanticDiagnosticsBuilderProgram
+  /** The diagnostics from the latest program */
+  getDiagnostics: () => Diagnostic[]
+  /** Listens for changes, returns a function which removes the listener */
+  addListener: (listener: (event: VirtualWatchEvent) => void) => () => void
+  /** Re-creates the program now if there are changes waiting, rather than waiting for the next tick */
+  flush: () => void
+  /** Stops watching the System */
+  close: () => void
+}
+
+/**
+ * Makes a watch program, like `tsc --watch`, against a System which supports watching files (for
+ * example from `createSystem`). Changes written through the System make a new program, which uses a
+ * builder program so only the affected files are checked and emitted again.
+ *
+ * The first program is made while this function runs, so use `getProgram` and `getDiagnostics` for
+ * the first results. After that, changes are batched and a new program is made on the next tick, or
+ * when `flush` is called. Errors from a program made on the next tick are sent as an `error` event,
+ * while `flush` throws them.
+ *
+ * @param sys an object which conforms to the TS Sys, and has `watchFile` and `watchDirectory`
+ * @param rootFiles a list of files which are considered inside the project
+ * @param compilerOptions the options for this compiler run
+ * @param ts a copy of the TypeScript module
+ */
+export function createVirtualWatchProgram(
+  sys: System,
+  rootFiles: string[],
+  compilerOptions: CompilerOptions,
+  ts: TS
+): VirtualWatchProgram {
+  const listeners = new Set<(event: VirtualWatchEvent) => void>()
+  const send = (event: VirtualWatchEvent) => listeners.forEach(listener => listener(event))
+
+  let diagnostics: Diagnostic[] = []
+  let diagnosticsKey = ""
+  // The diagnostics which TypeScript reported while making the next program
+  let configDiagnostics: Diagnostic[] = []
+
+  const host = ts.createWatchCompilerHost(
+    rootFiles,
+    { ...defaultCompilerOptions(ts), ...compilerOptions },
+    sys,
+    ts.createEmitAndSemanticDiagnosticsBuilderProgram,
+    diagnostic => configDiagnostics.push(diagnostic),
+    () => {}
+  )
+
+  // The lib files live in the root of the vfs, rather than next to the TypeScript module
+  host.getDefaultLibLocation = () => "/"
+  host.getDefaultLibFileName = options => "/" + ts.getDefaultLibFileName(options)
+
+  // Run the watch host's timers (which re-create the program) on the next tick instead of after
+  // 250ms, so that changes show up quickly. A timer can start another one, so flush runs them all
+  const pendingTimers = new Set<() => void>()
+  host.setTimeout = (callback, _ms, ...args) => {
+    const timer = () => {
+      if (!pendingTimers.delete(timer)) return
+      callback(...args)
+    }
+    pendingTimers.add(timer)
+    Promise.resolve()
+      .then(timer)
+      .catch(error => send({ kind: "error", error }))
+    return timer
+  }
+  host.clearTimeout = timer => pendingTimers.delete(timer)
+
+  host.afterProgramCreate = program => {
+    send({ kind: "program", program })
+
+    const emittedFiles: string[] = []
+    program.emit(undefined, (fileName, text, writeByteOrderMark) => {
+      sys.writeFile(fileName, text, writeByteOrderMark)
+      emittedFiles.push(fileName)
+    })
+
+    // The builder program only re-checks the files which were affected by the change
+    const newDiagnostics = configDiagnostics.concat(
+      program.getConfigFileParsingDiagnostics(),
+      program.getOptionsDiagnostics(),
+      program.getGlobalDiagnostics(),
+      program.getSyntacticDiagnostics(),
+      program.getSemanticDiagnostics()
+    )
+    configDiagnostics = []
+
+    const newKey = newDiagnostics
+      .map(d => [d.file?.fileName, d.start, d.code, ts.flattenDiagnosticMessageText(d.messageText, "\n")].join(":"))
+      .join("\n")
+    if (newKey !== diagnosticsKey) {
+      diagnostics = newDiagnostics
+      diagnosticsKey = newKey
+      send({ kind: "diagnostics", diagnostics })
+    }
+
+    if (emittedFiles.length) send({ kind: "emit", files: emittedFiles })
+  }
+
+  const watchProgram = ts.createWatchProgram(host)
+
+  return {
+    watchProgram,
+    getProgram: () => watchProgram.getProgram(),
+    getDiagnostics: () => diagnostics,
+    addListener: listener => {
+      listeners.add(listener)
+      return () => listeners.delete(listener)
+    },
+    flush: () => {
+      while (pendingTimers.size) pendingTimers.forEach(timer => timer())
+    },
+    close: () => {
+      pendingTimers.clear()
+      watchProgram.close()
+    },
+  }
+}
+
+/** A file which is different between two fsMaps, with a unified diff of its text */
+export interface FileSystemChange {
+  fileName: string
+  diff: string
+}
+
+export interface FileSystemDiff {
+  added: FileSystemChange[]
+  changed: FileSystemChange[]
+  removed: FileSystemChange[]
+}
+
+/**
+ * Copies the files in an fsMap, so that it can be compared with `diffFileSystems` after a compile
+ * has written to the fsMap.
+ *
+ * @param fsMap the fsMap given to `createSystem`
+ */
+export const snapshotFileSystem = (fsMap: Map<string, string>): ReadonlyMap<string, string> => new Map(fsMap)
+
+/**
+ * Finds the files which were added, changed or removed between two fsMaps, for example to see
+ * what a compile wrote. Each file comes with a unified diff of its text.
+ *
+ * @param before an fsMap, usually from `snapshotFileSystem`
+ * @param after the fsMap to compare it to
+ */
+export const diffFileSystems = (
+  before: ReadonlyMap<string, string>,
+  after: ReadonlyMap<string, string>
+): FileSystemDiff => {
+  const diff: FileSystemDiff = { added: [], changed: [], removed: [] }
+
+  after.forEach((text, fileName) => {
+    const previous = before.get(fileName)
+    if (previous === undefined) diff.added.push({ fileName, diff: createUnifiedDiff(fileName, undefined, text) })
+    else if (previous !== text) diff.changed.push({ fileName, diff: createUnifiedDiff(fileName, previous, text) })
+  })
+
+  before.forEach((text, fileName) => {
+    if (!after.has(fileName)) diff.removed.push({ fileName, diff: createUnifiedDiff(fileName, text, undefined) })
+  })
+
+  return diff
+}
+
+/** Everything needed to re-create a virtual environment, see `serializeVirtualEnvironment` */
+export interface VirtualEnvironmentSnapshot {
+  compilerOptions: CompilerOptions
+  rootFiles: string[]
+  files: Record<string, string>
+}
+
+/**
+ * Saves the files, compiler options and root files of an environment to a JSON string, which can be
+ * turned back into an environment with `restoreVirtualEnvironment`. The lib `.d.ts` files are left
+ * out unless `includeLibFiles` is set, because they can be re-created from the TypeScript version.
+ *
+ * @param env the environment to save
+ * @param fsMap the fsMap which was given to `createSystem` for the environment
+ * @param options whether to include the lib files
+ */
+export const serializeVirtualEnvironment = (
+  env: VirtualTypeScriptEnvironment,
+  fsMap: Map<string, string>,
+  options: { includeLibFiles?: boolean } = {}
+) => {
+  const program = env.languageService.getProgram()!
+  const files: Record<string, string> = {}
+  fsMap.forEach((text, fileName) => {
+    if (options.includeLibFiles || !/^\/lib\.[^/]*d\.ts$/.test(fileName)) files[fileName] = text
+  })
+
+  const snapshot: VirtualEnvironmentSnapshot = {
+    compilerOptions: program.getCompilerOptions(),
+    rootFiles: program.getRootFileNames().slice(),
+    files,
   }
+  return JSON.stringify(snapshot)
+}
+
+/**
+ * Re-creates an environment from the JSON made by `serializeVirtualEnvironment`.
+ *
+ * @param json the saved environment
+ * @param ts a copy of the TypeScript module
+ * @param fsMap the fsMap to put the files into, usually one with the lib files already in it
+ */
+export const restoreVirtualEnvironment = (json: string, ts: TS, fsMap: Map<string, string> = new Map()) => {
+  const snapshot = JSON.parse(json) as VirtualEnvironmentSnapshot
+  Object.keys(snapshot.files).forEach(fileName => fsMap.set(fileName, snapshot.files[fileName]))
+
+  const system = createSystem(fsMap)
+  return createVirtualTypeScriptEnvironment(system, snapshot.rootFiles, ts, snapshot.compilerOptions)
+}
+
+/** Makes a unified diff between two versions of a file, where undefined means the file doesn't exist */
+const createUnifiedDiff = (fileName: string, before: string | undefined, after: string | undefined) => {
+  const lines = diffLines(before === undefined ? [] : before.split("\n"), after === undefined ? [] : after.split("\n"))
+  const context = 3
+
+  // Group the changes which are close to each other into hunks, with a few lines around them
+  const hunks: { start: number; end: number }[] = []
+  lines.forEach((line, index) => {
+    if (line.kind === " ") return
+    const last = hunks[hunks.length - 1]
+    if (last && index - context <= last.end) last.end = Math.min(lines.length, index + context + 1)
+    else hunks.push({ start: Math.max(0, index - context), end: Math.min(lines.length, index + context + 1) })
+  })
+
+  const output = [
+    before === undefined ? "--- /dev/null" : `--- ${fileName}`,
+    after === undefined ? "+++ /dev/null" : `+++ ${fileName}`,
+  ]
+  hunks.forEach(hunk => {
+    const countBefore = (end: number, kind: string) => lines.slice(0, end).filter(line => line.kind !== kind).length
+    const hunkLines = lines.slice(hunk.start, hunk.end)
+    const beforeLength = hunkLines.filter(line => line.kind !== "+").length
+    const afterLength = hunkLines.filter(line => line.kind !== "-").length
+    const beforeStart = countBefore(hunk.start, "+") + (beforeLength ? 1 : 0)
+    const afterStart = countBefore(hunk.start, "-") + (afterLength ? 1 : 0)
+
+    output.push(`@@ -${beforeStart},${beforeLength} +${afterStart},${afterLength} @@`)
+    hunkLines.forEach(line => output.push(line.kind + line.text))
+  })
+
+  return output.join("\n")
+}
+
+/** Works out which lines were kept, removed or added using the longest common subsequence of lines */
+const diffLines = (before: string[], after: string[]) => {
+  type Line = { kind: " " | "-" | "+"; text: string }
+
+  // Only the lines between the unchanged start and end of the file need comparing
+  let start = 0
+  while (start < before.length && start < after.length && before[start] === after[start]) start++
+  let beforeEnd = before.length
+  let afterEnd = after.length
+  while (beforeEnd > start && afterEnd > start && before[beforeEnd - 1] === after[afterEnd - 1]) {
+    beforeEnd--
+    afterEnd--
+  }
+
+  const removed = before.slice(start, beforeEnd)
+  const added = after.slice(start, afterEnd)
+  const middle: Line[] = []
+
+  // Very large changes are shown as a removal then an addition, rather than using lots of memory
+  if (removed.length * added.length > 1000000) {
+    removed.forEach(text => middle.push({ kind: "-", text }))
+    added.forEach(text => middle.push({ kind: "+", text }))
+  } else {
+    const lengths = removed.map(() => new Array<number>(added.length + 1).fill(0))
+    lengths.push(new Array<number>(added.length + 1).fill(0))
+    for (let i = removed.length - 1; i >= 0; i--) {
+      for (let j = added.length - 1; j >= 0; j--) {
+        lengths[i][j] =
+          removed[i] === added[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+      }
+    }
+
+    let i = 0
+    let j = 0
+    while (i < removed.length || j < added.length) {
+      if (i < removed.length && j < added.length && removed[i] === added[j]) {
+        middle.push({ kind: " ", text: removed[i++] })
+        j++
+      } else if (j >= added.length || (i < removed.length && lengths[i + 1][j] >= lengths[i][j + 1])) {
+        middle.push({ kind: "-", text: removed[i++] })
+      } else {
+        middle.push({ kind: "+", text: added[j++] })
+      }
+    }
+  }
+
+  const unchanged = (text: string): Line => ({ kind: " ", text })
+  return before.slice(0, start).map(unchanged).concat(middle, before.slice(beforeEnd).map(unchanged))
 }
 
 /**
@@ -189,7 +892,8 @@ export const knownLibFilesForCompilerOptions = (compilerOptions: CompilerOptions
 
 /**
  * Sets up a Map with lib contents by grabbing the necessary files from
- * the local copy of typescript via the file system.
+ * the local copy of typescript via the file system. When a copy of TypeScript
+ * is passed in, the lib files come from the folder it was loaded from.
  */
 export const createDefaultMapFromNodeModules = (compilerOptions: CompilerOptions, ts?: typeof import("typescript")) => {
   const tsModule = ts || require("typescript")
@@ -197,7 +901,7 @@ export const createDefaultMapFromNodeModules = (compilerOptions: CompilerOptions
   const fs = requireFS()
 
   const getLib = (name: string) => {
-    const lib = path.dirname(require.resolve("typescript"))
+    const lib = path.dirname(tsModule.getDefaultLibFilePath(compilerOptions))
     return fs.readFileSync(path.join(lib, name), "utf8")
   }
 
@@ -250,86 +954,409 @@ export const addAllFilesFromFolder = (map: Map<string, string>, workingDir: stri
 export const addFilesForTypesIntoFolder = (map: Map<string, string>) =>
   addAllFilesFromFolder(map, "node_modules/@types")
 
+/** The package which was added to the fsMap by `addPackageFromTarball` */
+export interface AddedPackage {
+  name: string
+  version: string
+  /** The folder the package was put in, e.g. `/node_modules/@types/node` */
+  path: string
+}
+
 /**
- * Create a virtual FS Map with the lib files from a particular TypeScript
- * version based on the target, Always includes dom ATM.
+ * Adds the type files from an npm package tarball (a `.tgz` from `npm pack` or the registry) into
+ * the fsMap. Only the `.d.ts`, `.d.mts`, `.d.cts` and `package.json` files are added, which is all
+ * TypeScript needs to follow the `types`, `typesVersions` and `exports` in the package.json.
+ *
+ * Gzipped tarballs can only be read in node, in a browser pass the un-gzipped tar instead.
+ *
+ * @param map the fsMap to add the files to
+ * @param tarball the contents of the tarball
+ * @param installPath where to put the package, defaults to `node_modules/[name]` from its package.json
+ */
+export const addPackageFromTarball = (
+  map: Map<string, string>,
+  tarball: Uint8Array,
+  installPath?: string
+): AddedPackage => {
+  const isGzipped = tarball[0] === 0x1f && tarball[1] === 0x8b
+  const tar = isGzipped ? new Uint8Array(requireZlib().gunzipSync(tarball)) : tarball
+
+  // Every file in a package tarball is inside a folder, usually `package/`
+  const files = new Map<string, string>()
+  readTarEntries(tar).forEach((contents, name) => {
+    const relativePath = name.slice(name.indexOf("/") + 1)
+    if (relativePath === "package.json" || isTypeFile(relativePath)) files.set(relativePath, decodeUTF8(contents))
+  })
+
+  const packageJSON = files.get("package.json")
+  if (!packageJSON) throw new Error("The tarball does not have a package.json")
+  const { name, version } = JSON.parse(packageJSON) as { name: string; version: string }
+
+  const path = "/" + (installPath || `node_modules/${name}`).replace(/^\/+|\/+$/g, "")
+  files.forEach((contents, relativePath) => map.set(`${path}/${relativePath}`, contents))
+
+  return { name, version, path }
+}
+
+/**
+ * Adds the type files for every package in a `package-lock.json` into the fsMap, at the same paths
+ * npm would install them to. The tarballs are read from a folder, where each one is named like the
+ * output of `npm pack` (e.g. `types-node-14.0.0.tgz` for `@types/node@14.0.0`), or has the same
+ * file name as the `resolved` URL in the lockfile.
+ *
+ * Links and optional packages without a tarball are skipped, optional packages are often only
+ * installed on other platforms. Any other missing tarballs are listed together in one error, and
+ * nothing is added to the fsMap.
+ *
+ * @param map the fsMap to add the files to
+ * @param packageLock the contents of a `package-lock.json`, supports lockfile versions 1 to 3
+ * @param tarballDirectory the folder with the tarballs
+ */
+export const addPackagesFromLockfile = (
+  map: Map<string, string>,
+  packageLock: string,
+  tarballDirectory: string
+): AddedPackage[] => {
+  const path = requirePath()
+  const fs = requireFS()
+
+  const lockfile = JSON.parse(packageLock) as PackageLock
+  const packages: { installPath: string; name: string; version: string; resolved?: string; optional?: boolean }[] = []
+
+  if (lockfile.packages) {
+    Object.keys(lockfile.packages).forEach(installPath => {
+      const lock = lockfile.packages![installPath]
+      // The root project has no path, and links point at folders rather than tarballs
+      if (!installPath || lock.link || !lock.version) return
+      const name = lock.name || installPath.slice(installPath.lastIndexOf("node_modules/") + "node_modules/".length)
+      packages.push({ installPath, name, version: lock.version, resolved: lock.resolved, optional: lock.optional })
+    })
+  } else {
+    const addDependencies = (dependencies: Record<string, PackageLockDependency>, parentPath: string) => {
+      Object.keys(dependencies).forEach(name => {
+        const lock = dependencies[name]
+        const installPath = `${parentPath}node_modules/${name}`
+        // Links have a version like `file:../folder`, rather than a tarball
+        if (!lock.version.startsWith("file:")) {
+          packages.push({ installPath, name, version: lock.version, resolved: lock.resolved, optional: lock.optional })
+        }
+        if (lock.dependencies) addDependencies(lock.dependencies, installPath + "/")
+      })
+    }
+    addDependencies(lockfile.dependencies || {}, "")
+  }
+
+  const tarballs: { installPath: string; tarballPath: string }[] = []
+  const missing: string[] = []
+  packages.forEach(pkg => {
+    const packedName = `${pkg.name.replace(/^@/, "").replace("/", "-")}-${pkg.version}.tgz`
+    const resolvedName = pkg.resolved && pkg.resolved.split("/").pop()!.split("?")[0]
+    const tarballPath = [packedName, resolvedName]
+      .filter((name): name is string => !!name)
+      .map(name => path.join(tarballDirectory, name))
+      .find(file => fs.existsSync(file))
+
+    if (tarballPath) tarballs.push({ installPath: pkg.installPath, tarballPath })
+    else if (!pkg.optional) missing.push(`${pkg.name}@${pkg.version}`)
+  })
+
+  if (missing.length) {
+    throw new Error(`Could not find a tarball for ${missing.join(", ")} in ${tarballDirectory}`)
+  }
+
+  return tarballs.map(({ installPath, tarballPath }) =>
+    addPackageFromTarball(map, new Uint8Array(fs.readFileSync(tarballPath)), installPath)
+  )
+}
+
+interface PackageLockDependency {
+  version: string
+  resolved?: string
+  optional?: boolean
+  dependencies?: Record<string, PackageLockDependency>
+}
+
+interface PackageLock {
+  /** Lockfile versions 2 and 3, keyed by the path the package is installed to */
+  packages?: Record<string, { name?: string; version?: string; resolved?: string; link?: boolean; optional?: boolean }>
+  /** Lockfile version 1, keyed by the package name */
+  dependencies?: Record<string, PackageLockDependency>
+}
+
+const isTypeFile = (fileName: string) => /\.d\.[cm]?ts$/.test(fileName)
+
+const decodeUTF8 = (bytes: Uint8Array) =>
+  typeof TextDecoder !== "undefined" ? new TextDecoder().decode(bytes) : Buffer.from(bytes).toString("utf8")
+
+/**
+ * Reads the files from a tar archive, supporting the ustar, pax and GNU long name headers which npm uses.
+ * @typescript/ata has a copy of this for its npm registry backend, which is tested against the same tarballs.
+ */
+const readTarEntries = (tar: Uint8Array) => {
+  const files = new Map<string, Uint8Array>()
+  const readString = (start: number, length: number) => {
+    const bytes = tar.subarray(start, start + length)
+    const end = bytes.indexOf(0)
+    return decodeUTF8(end === -1 ? bytes : bytes.subarray(0, end))
+  }
+
+  let offset = 0
+  let nextName: string | undefined
+  while (offset + 512 <= tar.length) {
+    const name = readString(offset, 100)
+    // Two empty blocks mark the end of the archive
+    if (!name) break
+
+    const size = parseInt(readString(offset + 124, 12).trim() || "0", 8)
+    const type = String.fromCharCode(tar[offset + 156])
+    const prefix = readString(offset + 257, 6) === "ustar" ? readString(offset + 345, 155) : ""
+    const contents = tar.subarray(offset + 512, offset + 512 + size)
+
+    if (type === "x") {
+      // A pax header, which can hold a long path for the next file in records like `27 path=some/file.d.ts`
+      const path = decodeUTF8(contents).match(/^\d+ path=(.*)$/m)
+      if (path) nextName = path[1]
+    } else if (type === "L") {
+      nextName = decodeUTF8(contents).replace(/\0+$/, "")
+    } else {
+      if (type === "0" || type === "\0") files.set(nextName || (prefix ? `${prefix}/${name}` : name), contents)
+      nextName = undefined
+    }
+
+    offset += 512 + Math.ceil(size / 512) * 512
+  }
+  return files
+}
+
+/**
+ * Somewhere to keep the lib files downloaded by `createDefaultMapFromCDN` between runs. Each
+ * method can return a promise, so async stores like IndexedDB work too.
+ */
+export interface LibCacheStore {
+  getItem(key: string): string | null | undefined | Promise<string | null | undefined>
+  setItem(key: string, value: string): void | Promise<void>
+  /** Lists the keys in the store, used with removeItem to clear out libs from other versions */
+  keys?(): string[] | Promise<string[]>
+  removeItem?(key: string): void | Promise<void>
+}
+
+export interface LibSourceOptions {
+  /** Where to keep the lib files between runs, when this isn't set every file is fetched */
+  store?: LibCacheStore
+  /**
+   * The URL which the lib files are in, `{version}` is replaced with the TypeScript version. Use this
+   * for a local mirror, defaults to `https://typescript.azureedge.net/cdn/{version}/typescript/lib/`
+   */
+  baseURL?: string
+  /**
+   * The URL of a JSON object of lib file names to their contents for a version, `{version}` is replaced
+   * with the TypeScript version. When this is set, all of the libs are loaded in one request instead
+   * of a request per file.
+   */
+  bundleURL?: string
+  /** An optional replacement for the global fetch function, which is only looked up when a file needs downloading */
+  fetcher?: typeof fetch
+}
+
+/**
+ * Create a virtual FS Map with the lib files from a particular TypeScript version, downloaded from
+ * a CDN (or a mirror of it) and optionally kept in a store between runs.
  *
  * @param options The compiler target, which dictates the libs to set up
- * @param version the versions of TypeScript which are supported
- * @param cache should the values be stored in local storage
+ * @param version the version of TypeScript to get the libs for
  * @param ts a copy of the typescript import
- * @param lzstring an optional copy of the lz-string import
- * @param fetcher an optional replacement for the global fetch function (tests mainly)
- * @param storer an optional replacement for the localStorage global (tests mainly)
+ * @param libSourceOptions where to get the lib files from, and where to keep them
  */
-export const createDefaultMapFromCDN = (
+export const createDefaultMapFromLibSource = (
   options: CompilerOptions,
   version: string,
-  cache: boolean,
   ts: TS,
-  lzstring?: typeof import("lz-string"),
-  fetcher?: typeof fetch,
-  storer?: typeof localStorage
+  libSourceOptions: LibSourceOptions = {}
 ) => {
-  const fetchlike = fetcher || fetch
+  const { store } = libSourceOptions
+  const baseURL = libSourceOptions.baseURL || "https://typescript.azureedge.net/cdn/{version}/typescript/lib/"
+  const prefix = baseURL.replace("{version}", version)
+
   const fsMap = new Map<string, string>()
   const files = knownLibFilesForCompilerOptions(options, ts)
-  const prefix = `https://typescript.azureedge.net/cdn/${version}/typescript/lib/`
+  const cacheKey = (lib: string) => `ts-lib-${version}-${lib}`
+
+  // The global fetch is looked up here, so that a store with every lib in it works without one
+  const fetchText = (url: string) =>
+    (libSourceOptions.fetcher || fetch)(url).then(resp => {
+      if (!resp.ok) throw new Error(`Could not download ${url}, the server responded with ${resp.status}`)
+      return resp.text()
+    })
+
+  // Only grab the bundle once, even when many libs are missing from the store
+  let bundle: Promise<Record<string, string>> | undefined
+  const fetchBundle = (bundleURL: string) => {
+    if (!bundle) {
+      bundle = fetchText(bundleURL.replace("{version}", version)).then(text => {
+        const libs = JSON.parse(text) as Record<string, string>
+        // Keep every lib from the bundle, so that other compiler options can use them later
+        const stored = Object.keys(libs).map(lib => store && store.setItem(cacheKey(lib), libs[lib]))
+        return Promise.all(stored).then(() => libs)
+      })
+    }
+    return bundle
+  }
+
+  const fetchLib = (lib: string): Promise<string> => {
+    if (libSourceOptions.bundleURL) {
+      return fetchBundle(libSourceOptions.bundleURL).then(libs => {
+        if (libs[lib] === undefined) throw new Error(`The lib bundle for TypeScript ${version} does not include ${lib}`)
+        return libs[lib]
+      })
+    }
 
-  function zip(str: string) {
-    return lzstring ? lzstring.compressToUTF16(str) : str
+    return fetchText(prefix + lib).then(text =>
+      Promise.resolve(store && store.setItem(cacheKey(lib), text)).then(() => text)
+    )
   }
 
-  function unzip(str: string) {
-    return lzstring ? lzstring.decompressFromUTF16(str) : str
+  // Remove anything which isn't from this version
+  const removeOtherVersions = () => {
+    if (!store || !store.keys || !store.removeItem) return Promise.resolve()
+    const removeItem = store.removeItem.bind(store)
+
+    return Promise.resolve(store.keys()).then(keys => {
+      const oldKeys = keys.filter(key => key.startsWith("ts-lib-") && !key.startsWith("ts-lib-" + version))
+      return Promise.all(oldKeys.map(key => removeItem(key)))
+    })
   }
 
-  // Map the known libs to a node fetch promise, then return the contents
-  function uncached() {
-    return Promise.all(files.map(lib => fetchlike(prefix + lib).then(resp => resp.text()))).then(contents => {
+  return removeOtherVersions()
+    .then(() =>
+      Promise.all(
+        files.map(lib =>
+          Promise.resolve(store && store.getItem(cacheKey(lib))).then(content => content || fetchLib(lib))
+        )
+      )
+    )
+    .then(contents => {
       contents.forEach((text, index) => fsMap.set("/" + files[index], text))
+      return fsMap
     })
+}
+
+/**
+ * Makes a `LibCacheStore` from a `localStorage`-like object, optionally compressing the files with lz-string.
+ *
+ * @param storage the object to keep the files in, defaults to `localStorage`
+ * @param lzstring an optional copy of the lz-string import
+ */
+export const createLocalStorageLibCacheStore = (
+  storage: Pick<Storage, "getItem" | "setItem" | "removeItem"> = localStorage,
+  lzstring?: typeof import("lz-string")
+): LibCacheStore => ({
+  getItem: key => {
+    const content = storage.getItem(key)
+    return content && lzstring ? lzstring.decompressFromUTF16(content) : content
+  },
+  setItem: (key, value) => storage.setItem(key, lzstring ? lzstring.compressToUTF16(value) : value),
+  keys: () => Object.keys(storage),
+  removeItem: key => storage.removeItem(key),
+})
+
+/** Makes a `LibCacheStore` which keeps the lib files in memory */
+export const createMemoryLibCacheStore = (): LibCacheStore => {
+  const files = new Map<string, string>()
+  return {
+    getItem: key => files.get(key),
+    setItem: (key, value) => {
+      files.set(key, value)
+    },
+    keys: () => Array.from(files.keys()),
+    removeItem: key => {
+      files.delete(key)
+    },
   }
+}
 
-  // A localstorage and lzzip aware version of the lib files
-  function cached() {
-    const storelike = storer || localStorage
+/**
+ * Makes a `LibCacheStore` which keeps each lib file in a folder on disk, for use in node.
+ *
+ * @param directory the folder to keep the files in, it is made when the first file is stored
+ */
+export const createFSBackedLibCacheStore = (directory: string): LibCacheStore => {
+  const path = requirePath()
+  const fs = requireFS()
+  const filePath = (key: string) => path.join(directory, encodeURIComponent(key))
 
-    const keys = Object.keys(localStorage)
-    keys.forEach(key => {
-      // Remove anything which isn't from this version
-      if (key.startsWith("ts-lib-") && !key.startsWith("ts-lib-" + version)) {
-        storelike.removeItem(key)
-      }
-    })
+  return {
+    getItem: key => (fs.existsSync(filePath(key)) ? fs.readFileSync(filePath(key), "utf8") : undefined),
+    setItem: (key, value) => {
+      fs.mkdirSync(directory, { recursive: true })
+      fs.writeFileSync(filePath(key), value, "utf8")
+    },
+    keys: () => (fs.existsSync(directory) ? fs.readdirSync(directory).map(decodeURIComponent) : []),
+    removeItem: key => fs.unlinkSync(filePath(key)),
+  }
+}
 
-    return Promise.all(
-      files.map(lib => {
-        const cacheKey = `ts-lib-${version}-${lib}`
-        const content = storelike.getItem(cacheKey)
-
-        if (!content) {
-          // Make the API call and store the text concent in the cache
-          return fetchlike(prefix + lib)
-            .then(resp => resp.text())
-            .then(t => {
-              storelike.setItem(cacheKey, zip(t))
-              return t
-            })
-        } else {
-          return Promise.resolve(unzip(content))
-        }
-      })
-    ).then(contents => {
-      contents.forEach((text, index) => {
-        const name = "/" + files[index]
-        fsMap.set(name, text)
-      })
-    })
+/**
+ * Makes a `LibCacheStore` which keeps the lib files in an IndexedDB database, which can hold
+ * much more than localStorage.
+ *
+ * @param databaseName the name of the IndexedDB database
+ * @param factory an optional replacement for the indexedDB global
+ */
+export const createIndexedDBLibCacheStore = (
+  databaseName = "typescript-lib-cache",
+  factory: IDBFactory = indexedDB
+): LibCacheStore => {
+  const objectStoreName = "libs"
+  const database = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = factory.open(databaseName, 1)
+    request.onupgradeneeded = () => request.result.createObjectStore(objectStoreName)
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+  const run = <T>(mode: IDBTransactionMode, makeRequest: (objectStore: IDBObjectStore) => IDBRequest<T>) =>
+    database.then(
+      db =>
+        new Promise<T>((resolve, reject) => {
+          const request = makeRequest(db.transaction(objectStoreName, mode).objectStore(objectStoreName))
+          request.onsuccess = () => resolve(request.result)
+          request.onerror = () => reject(request.error)
+        })
+    )
+
+  return {
+    getItem: key => run("readonly", objectStore => objectStore.get(key)),
+    setItem: (key, value) => run("readwrite", objectStore => objectStore.put(value, key)).then(() => {}),
+    keys: () => run("readonly", objectStore => objectStore.getAllKeys()).then(keys => keys.map(String)),
+    removeItem: key => run("readwrite", objectStore => objectStore.delete(key)).then(() => {}),
   }
+}
 
-  const func = cache ? cached : uncached
-  return func().then(() => fsMap)
+/**
+ * Create a virtual FS Map with the lib files from a particular TypeScript
+ * version based on the target, Always includes dom ATM.
+ *
+ * Use `createDefaultMapFromLibSource` to pick a different store or a mirror of the CDN.
+ *
+ * @param options The compiler target, which dictates the libs to set up
+ * @param version the versions of TypeScript which are supported
+ * @param cache should the values be stored in local storage
+ * @param ts a copy of the typescript import
+ * @param lzstring an optional copy of the lz-string import
+ * @param fetcher an optional replacement for the global fetch function (tests mainly)
+ * @param storer an optional replacement for the localStorage global (tests mainly)
+ */
+export const createDefaultMapFromCDN = (
+  options: CompilerOptions,
+  version: string,
+  cache: boolean,
+  ts: TS,
+  lzstring?: typeof import("lz-string"),
+  fetcher?: typeof fetch,
+  storer?: typeof localStorage
+) => {
+  const store = cache ? createLocalStorageLibCacheStore(storer || localStorage, lzstring) : undefined
+  return createDefaultMapFromLibSource(options, version, ts, { store, fetcher })
 }
 
 function notImplemented(methodName: string): any {
@@ -369,41 +1396,358 @@ const defaultCompilerOptions = (ts: typeof import("typescript")): CompilerOption
 // "/DOM.d.ts" => "/lib.dom.d.ts"
 const libize = (path: string) => path.replace("/", "/lib.").toLowerCase()
 
+export interface VirtualSystemOptions {
+  /**
+   * Set this to false to treat file names which only differ by their casing as the same file, like the
+   * default file systems on Windows and macOS. Defaults to true, or false when `windowsPaths` is set.
+   */
+  useCaseSensitiveFileNames?: boolean
+  /**
+   * Emulates Windows paths, so backslashes work as folder separators, paths can start with a drive
+   * letter like `C:\` and the current directory is `C:/`.
+   */
+  windowsPaths?: boolean
+}
+
 /**
  * Creates an in-memory System object which can be used in a TypeScript program, this
- * is what provides read/write aspects of the virtual fs
+ * is what provides read/write aspects of the virtual fs.
+ *
+ * The folders are worked out from the paths of the files in the Map, so it is safe to keep editing
+ * the Map after making the System. Empty folders can be made with `createDirectory`.
+ *
+ * Modified times come from a counter which goes up with every edit, so an edit is always newer than the last
+ * build even inside the same millisecond. Edits made straight to the Map are noticed by their contents, and
+ * files which were in the Map before the System was made are from the time it was made. File and folder
+ * watchers are only told about changes which are made through the System.
+ *
+ * By default paths are case-sensitive and use `/`, the options can emulate other file systems
+ * entirely in memory - for example to reproduce `forceConsistentCasingInFileNames` errors.
  */
-export function createSystem(files: Map<string, string>): System {
+export function createSystem(files: Map<string, string>, options: VirtualSystemOptions = {}): System {
+  const useCaseSensitiveFileNames = options.useCaseSensitiveFileNames ?? !options.windowsPaths
+  const canonical = createGetCanonicalPath(useCaseSensitiveFileNames, !!options.windowsPaths)
+  const normalize = (path: string) => normalizePath(options.windowsPaths ? path.replace(/\\/g, "/") : path)
+  const usesExactPaths = useCaseSensitiveFileNames && !options.windowsPaths
+  const findFile = (fileName: string) => findFileKey(files, fileName, usesExactPaths ? undefined : canonical)
+
+  // Folders made with createDirectory, which don't have to contain any files
+  const directories = new Set<string>(options.windowsPaths ? ["/", "C:/"] : ["/"])
+
+  const fileWatchers = new Set<{ path: string; callback: FileWatcherCallback }>()
+  const directoryWatchers = new Set<{ path: string; callback: DirectoryWatcherCallback; recursive: boolean }>()
+
+  /** Tells any watchers about a change, the kind is a ts.FileWatcherEventKind: 0 created, 1 changed and 2 deleted */
+  const notifyWatchers = (fileName: string, kind: 0 | 1 | 2) => {
+    const path = canonical(fileName)
+    fileWatchers.forEach(watcher => {
+      if (canonical(watcher.path) === path) watcher.callback(fileName, kind)
+    })
+
+    const parent = normalizePath(path.slice(0, path.lastIndexOf("/") + 1))
+    directoryWatchers.forEach(watcher => {
+      const dir = canonical(normalize(watcher.path))
+      const isInside = watcher.recursive ? path.startsWith(withTrailingSlash(dir)) : parent === dir
+      if (isInside) watcher.callback(fileName)
+    })
+  }
+
+  // The version of each file is used as its modified time, with the contents it had at that version so that
+  // edits made straight to the Map can be noticed
+  let lastVersion = Date.now()
+  const fileVersions = new Map<string, { content: string | undefined; version: number }>()
+  files.forEach((content, fileName) => fileVersions.set(fileName, { content, version: lastVersion }))
+
+  const getFileVersion = (fileName: string) => {
+    const content = files.get(fileName)
+    const known = fileVersions.get(fileName)
+    if (known && known.content === content) return known.version
+
+    const version = ++lastVersion
+    fileVersions.set(fileName, { content, version })
+    return version
+  }
+
+  // The files and folders inside each folder, by the canonical path of the folder. This is built when it's first
+  // needed, and built again after a file is added or removed from the Map or a folder is made
+  let entriesIndex: Map<string, { files: Set<string>; directories: Set<string> }> | undefined
+  let indexedFileNames: string[] = []
+
+  /** Whether the Map has the same files, in the same order, as when the index was built */
+  const hasSameFileNames = () => {
+    if (files.size !== indexedFileNames.length) return false
+    let index = 0
+    for (const fileName of files.keys()) {
+      if (fileName !== indexedFileNames[index++]) return false
+    }
+    return true
+  }
+
+  const getEntriesIndex = () => {
+    if (entriesIndex && hasSameFileNames()) return entriesIndex
+
+    const index = new Map<string, { files: Set<string>; directories: Set<string> }>()
+    const entriesFor = (directory: string) => {
+      const key = canonical(directory)
+      const existing = index.get(key)
+      if (existing) return existing
+
+      const entries = { files: new Set<string>(), directories: new Set<string>() }
+      index.set(key, entries)
+      return entries
+    }
+
+    const addPath = (path: string, isFile: boolean) => {
+      let child = normalize(path)
+      if (!isFile) entriesFor(child)
+
+      // Walk up to the root, adding each part of the path to the folder it is inside
+      let slash = child.lastIndexOf("/")
+      while (slash !== -1 && child.length > slash + 1) {
+        const name = child.slice(slash + 1)
+        const parent = normalizePath(child.slice(0, slash + 1))
+        const entries = entriesFor(parent)
+        if (isFile) {
+          entries.files.add(name)
+        } else if (entries.directories.has(name)) {
+          break
+        } else {
+          entries.directories.add(name)
+        }
+
+        isFile = false
+        child = parent
+        slash = child.lastIndexOf("/")
+      }
+    }
+
+    files.forEach((_, fileName) => addPath(fileName, true))
+    directories.forEach(dirName => addPath(dirName, false))
+
+    entriesIndex = index
+    indexedFileNames = Array.from(files.keys())
+    return index
+  }
+
+  /** Gets the files and folders directly inside a folder, this is how the file tree is walked */
+  const getEntries = (directory: string): FileSystemEntries => {
+    const entries = getEntriesIndex().get(canonical(normalize(directory)))
+    if (!entries) return { files: [], directories: [] }
+    return { files: Array.from(entries.files).sort(), directories: Array.from(entries.directories).sort() }
+  }
+
+  const directoryExists = (directory: string) => getEntriesIndex().has(canonical(normalize(directory)))
+
   return {
     args: [],
-    createDirectory: () => notImplemented("createDirectory"),
-    // TODO: could make a real file tree
-    directoryExists: audit("directoryExists", directory => {
-      return Array.from(files.keys()).some(path => path.startsWith(directory))
+    createDirectory: audit("createDirectory", directory => {
+      directories.add(normalize(directory))
+      entriesIndex = undefined
+    }),
+    deleteFile: audit("deleteFile", fileName => {
+      const key = findFile(fileName)
+      if (key === undefined) return
+      files.delete(key)
+      fileVersions.delete(key)
+      notifyWatchers(key, 2)
     }),
+    directoryExists: audit("directoryExists", directoryExists),
     exit: () => notImplemented("exit"),
-    fileExists: audit("fileExists", fileName => files.has(fileName) || files.has(libize(fileName))),
-    getCurrentDirectory: () => "/",
-    getDirectories: () => [],
+    fileExists: audit(
+      "fileExists",
+      fileName => findFile(fileName) !== undefined || findFile(libize(fileName)) !== undefined
+    ),
+    getCurrentDirectory: () => (options.windowsPaths ? "C:/" : "/"),
+    getDirectories: audit("getDirectories", directory => getEntries(directory).directories),
     getExecutingFilePath: () => notImplemented("getExecutingFilePath"),
-    readDirectory: audit("readDirectory", directory => (directory === "/" ? Array.from(files.keys()) : [])),
-    readFile: audit("readFile", fileName => files.get(fileName) || files.get(libize(fileName))),
+    getModifiedTime: fileName => {
+      const key = findFile(fileName)
+      return key !== undefined ? new Date(getFileVersion(key)) : undefined
+    },
+    setModifiedTime: (fileName, time) => {
+      const key = findFile(fileName) ?? fileName
+      fileVersions.set(key, { content: files.get(key), version: time.getTime() })
+      lastVersion = Math.max(lastVersion, time.getTime())
+    },
+    // Not in the public System type, the solution builder uses it for the times it gives to up-to-date outputs
+    // @ts-ignore
+    now: () => new Date(++lastVersion),
+    readDirectory: audit("readDirectory", (directory, extensions, excludes, includes, depth) =>
+      matchFiles(normalize(directory), extensions, excludes, includes, depth, getEntries, useCaseSensitiveFileNames)
+    ),
+    readFile: audit("readFile", fileName => {
+      const key = findFile(fileName) ?? findFile(libize(fileName))
+      return key !== undefined ? files.get(key) : undefined
+    }),
+    realpath: path => normalize(path),
     resolvePath: path => path,
     newLine: "\n",
-    useCaseSensitiveFileNames: true,
+    useCaseSensitiveFileNames,
     write: () => notImplemented("write"),
     writeFile: (fileName, contents) => {
-      files.set(fileName, contents)
+      // Writing to a file which exists with a different casing keeps the original name, like a real file system
+      const key = findFile(fileName)
+      files.set(key ?? fileName, contents)
+      fileVersions.set(key ?? fileName, { content: contents, version: ++lastVersion })
+      notifyWatchers(key ?? fileName, key !== undefined ? 1 : 0)
+    },
+    watchFile: (path, callback) => {
+      const watcher = { path, callback }
+      fileWatchers.add(watcher)
+      return { close: () => fileWatchers.delete(watcher) }
+    },
+    watchDirectory: (path, callback, recursive) => {
+      const watcher = { path, callback, recursive: !!recursive }
+      directoryWatchers.add(watcher)
+      return { close: () => directoryWatchers.delete(watcher) }
     },
   }
 }
 
+/** Makes the function which turns a path into the form used to compare it against other paths */
+const createGetCanonicalPath = (useCaseSensitiveFileNames: boolean, windowsPaths: boolean) => (path: string) => {
+  const withSlashes = windowsPaths ? path.replace(/\\/g, "/") : path
+  return useCaseSensitiveFileNames ? withSlashes : withSlashes.toLowerCase()
+}
+
+/**
+ * Finds the key in an fsMap for a file, which can be different to the file name when paths aren't
+ * case-sensitive. Without a canonical function only the exact file name is looked up.
+ */
+const findFileKey = (files: Map<string, string>, fileName: string, canonical?: (path: string) => string) => {
+  if (files.has(fileName)) return fileName
+  if (!canonical) return undefined
+
+  const canonicalFileName = canonical(fileName)
+  return Array.from(files.keys()).find(key => canonical(key) === canonicalFileName)
+}
+
+/** Removes any trailing slashes, and any `.` or `..` parts of an absolute path, which can start with a drive like `C:/` */
+const normalizePath = (path: string) => {
+  const drive = /^[a-zA-Z]:(?=\/|$)/.exec(path)
+  const parts: string[] = []
+  path
+    .slice(drive ? 2 : 0)
+    .split("/")
+    .forEach(part => {
+      if (part === "..") parts.pop()
+      else if (part && part !== ".") parts.push(part)
+    })
+  return (drive ? drive[0] : "") + "/" + parts.join("/")
+}
+
+const withTrailingSlash = (path: string) => (path.endsWith("/") ? path : path + "/")
+
+type FileSystemEntries = { files: string[]; directories: string[] }
+
+/**
+ * Finds all of the files in a folder which match the arguments to `System.readDirectory`, this works like
+ * the version in `ts.sys` - including the same handling of `*`, `?` and `**` in the include/exclude globs.
+ */
+const matchFiles = (
+  directory: string,
+  extensions: readonly string[] | undefined,
+  excludes: readonly string[] | undefined,
+  includes: readonly string[] | undefined,
+  depth: number | undefined,
+  getEntries: (directory: string) => FileSystemEntries,
+  useCaseSensitiveFileNames = true
+) => {
+  const root = normalizePath(directory)
+  const flags = useCaseSensitiveFileNames ? "" : "i"
+  const includeRegexes =
+    includes && includes.length ? includes.map(spec => globToRegExp(root, spec, "files", flags)) : undefined
+  const excludeRegex =
+    excludes && excludes.length
+      ? new RegExp(excludes.map(spec => globToRegExp(root, spec, "exclude").source).join("|"), flags)
+      : undefined
+
+  // Each include gets its own list, so that the results come back in the same order as the includes
+  const results: string[][] = includeRegexes ? includeRegexes.map(() => []) : [[]]
+
+  const visitDirectory = (path: string, depthLeft: number | undefined) => {
+    const entries = getEntries(path)
+    const prefix = withTrailingSlash(path)
+
+    entries.files.forEach(name => {
+      const fileName = prefix + name
+      if (extensions && extensions.length && !extensions.some(ext => fileName.endsWith(ext))) return
+      if (excludeRegex && excludeRegex.test(fileName)) return
+
+      if (!includeRegexes) {
+        results[0].push(fileName)
+      } else {
+        const index = includeRegexes.findIndex(regex => regex.test(fileName))
+        if (index !== -1) results[index].push(fileName)
+      }
+    })
+
+    if (depthLeft !== undefined) {
+      depthLeft--
+      if (depthLeft === 0) return
+    }
+
+    entries.directories.forEach(name => {
+      const dirName = prefix + name
+      if (excludeRegex && excludeRegex.test(dirName)) return
+      visitDirectory(dirName, depthLeft)
+    })
+  }
+
+  visitDirectory(root, depth)
+  return results.reduce((all, files) => all.concat(files), [])
+}
+
+/**
+ * Converts a tsconfig-style glob into a regex for full paths. Like TypeScript, an include which doesn't
+ * end with a wildcard or an extension is treated as a folder, wildcards don't match dotfiles or the
+ * package folders when including files, and an exclude also excludes everything inside a matching folder.
+ */
+const globToRegExp = (root: string, spec: string, usage: "files" | "exclude", flags = "") => {
+  const isAbsolute = /^([a-zA-Z]:)?\//.test(spec)
+  // The first component is the drive for Windows paths, otherwise it is empty
+  const [drive, ...components] = normalizePath(isAbsolute ? spec : root + "/" + spec).split("/")
+
+  // An include like "src" means everything inside that folder
+  const last = components[components.length - 1]
+  if (usage === "files" && last && !/[.*?]/.test(last)) components.push("**", "*")
+
+  let pattern = drive
+  components.forEach(component => {
+    if (component === "**") {
+      pattern +=
+        usage === "files" ? "(/(?!(node_modules|bower_components|jspm_packages)(/|$))[^./][^/]*)*?" : "(/[^/]*)*?"
+      return
+    }
+
+    pattern += "/"
+    component.split("").forEach((char, index) => {
+      if (char === "*") pattern += index === 0 && usage === "files" ? "([^./][^/]*)?" : "[^/]*"
+      else if (char === "?") pattern += "[^/]"
+      else pattern += char.replace(/[\\^$.+()[\]{}|]/g, "\\$&")
+    })
+  })
+
+  return new RegExp("^" + pattern + (usage === "exclude" ? "($|/)" : "$"), flags)
+}
+
 /**
  * Creates a file-system backed System object which can be used in a TypeScript program, you provide
  * a set of virtual files which are prioritised over the FS versions, then a path to the root of your
  * project (basically the folder your node_modules lives)
+ *
+ * Setting `useCaseSensitiveFileNames` to false makes the virtual files match any casing of their names.
  */
-export function createFSBackedSystem(files: Map<string, string>, _projectRoot: string, ts: TS): System {
+export function createFSBackedSystem(
+  files: Map<string, string>,
+  _projectRoot: string,
+  ts: TS,
+  options: Pick<VirtualSystemOptions, "useCaseSensitiveFileNames"> = {}
+): System {
+  const useCaseSensitiveFileNames = options.useCaseSensitiveFileNames ?? true
+  const canonical = createGetCanonicalPath(useCaseSensitiveFileNames, false)
+  const findFile = (fileName: string) => findFileKey(files, fileName, useCaseSensitiveFileNames ? undefined : canonical)
+
   // We need to make an isolated folder for the tsconfig, but also need to be able to resolve the
   // existing node_modules structures going back through the history
   const root = _projectRoot + "/vfs"
@@ -411,7 +1755,7 @@ export function createFSBackedSystem(files: Map<string, string>, _projectRoot: s
 
   // The default System in TypeScript
   const nodeSys = ts.sys
-  const tsLib = path.dirname(require.resolve("typescript"))
+  const tsLib = path.dirname(ts.getDefaultLibFilePath({}))
 
   return {
     // @ts-ignore
@@ -421,13 +1765,16 @@ export function createFSBackedSystem(files: Map<string, string>, _projectRoot: s
     createDirectory: () => notImplemented("createDirectory"),
     // TODO: could make a real file tree
     directoryExists: audit("directoryExists", directory => {
-      return Array.from(files.keys()).some(path => path.startsWith(directory)) || nodeSys.directoryExists(directory)
+      const dir = canonical(directory)
+      return (
+        Array.from(files.keys()).some(path => canonical(path).startsWith(dir)) || nodeSys.directoryExists(directory)
+      )
     }),
     exit: nodeSys.exit,
     fileExists: audit("fileExists", fileName => {
-      if (files.has(fileName)) return true
-      // Don't let other tsconfigs end up touching the vfs
-      if (fileName.includes("tsconfig.json") || fileName.includes("tsconfig.json")) return false
+      if (findFile(fileName) !== undefined) return true
+      // Don't let other tsconfigs end up touching the vfs, unless they come from a package to extend
+      if (fileName.includes("tsconfig.json") && !fileName.includes("node_modules")) return false
       if (fileName.startsWith("/lib")) {
         const tsLibName = `${tsLib}/${fileName.replace("/", "")}`
         return nodeSys.fileExists(tsLibName)
@@ -435,7 +1782,17 @@ export function createFSBackedSystem(files: Map<string, string>, _projectRoot: s
       return nodeSys.fileExists(fileName)
     }),
     getCurrentDirectory: () => root,
-    getDirectories: nodeSys.getDirectories,
+    // Only the virtual folders are listed, otherwise every @types package on disk would be included in each program
+    getDirectories: audit("getDirectories", directory => {
+      const dir = withTrailingSlash(canonical(directory))
+      const names = new Set<string>()
+      files.forEach((_, fileName) => {
+        if (!canonical(fileName).startsWith(dir)) return
+        const slash = fileName.indexOf("/", dir.length)
+        if (slash !== -1) names.add(fileName.slice(dir.length, slash))
+      })
+      return Array.from(names).sort()
+    }),
     getExecutingFilePath: () => notImplemented("getExecutingFilePath"),
     readDirectory: audit("readDirectory", (...args) => {
       if (args[0] === "/") {
@@ -445,7 +1802,8 @@ export function createFSBackedSystem(files: Map<string, string>, _projectRoot: s
       }
     }),
     readFile: audit("readFile", fileName => {
-      if (files.has(fileName)) return files.get(fileName)
+      const key = findFile(fileName)
+      if (key !== undefined) return files.get(key)
       if (fileName.startsWith("/lib")) {
         const tsLibName = `${tsLib}/${fileName.replace("/", "")}`
         const result = nodeSys.readFile(tsLibName)
@@ -460,14 +1818,17 @@ export function createFSBackedSystem(files: Map<string, string>, _projectRoot: s
       return nodeSys.readFile(fileName)
     }),
     resolvePath: path => {
-      if (files.has(path)) return path
+      if (findFile(path) !== undefined) return path
       return nodeSys.resolvePath(path)
     },
     newLine: "\n",
-    useCaseSensitiveFileNames: true,
+    useCaseSensitiveFileNames,
     write: () => notImplemented("write"),
     writeFile: (fileName, contents) => {
-      files.set(fileName, contents)
+      files.set(findFile(fileName) ?? fileName, contents)
+    },
+    deleteFile: fileName => {
+      files.delete(findFile(fileName) ?? fileName)
     },
   }
 }
@@ -487,15 +1848,16 @@ export function createVirtualCompilerHost(sys: System, compilerOptions: Compiler
   type Return = {
     compilerHost: CompilerHost
     updateFile: (sourceFile: SourceFile) => boolean
+    deleteFile: (fileName: string) => boolean
   }
 
   const vHost: Return = {
     compilerHost: {
       ...sys,
-      getCanonicalFileName: fileName => fileName,
+      getCanonicalFileName: fileName => (sys.useCaseSensitiveFileNames ? fileName : fileName.toLowerCase()),
       getDefaultLibFileName: () => "/" + ts.getDefaultLibFileName(compilerOptions), // '/lib.d.ts',
       // getDefaultLibLocation: () => '/',
-      getDirectories: () => [],
+      getDirectories: sys.getDirectories,
       getNewLine: () => sys.newLine,
       getSourceFile: fileName => {
         return (
@@ -518,39 +1880,76 @@ export function createVirtualCompilerHost(sys: System, compilerOptions: Compiler
       sourceFiles.set(sourceFile.fileName, sourceFile)
       return alreadyExists
     },
+    deleteFile: fileName => {
+      const existed = sourceFiles.delete(fileName)
+      if (sys.deleteFile) sys.deleteFile(fileName)
+      return existed
+    },
   }
   return vHost
 }
 
+/** The file versions of the language service hosts which share a DocumentRegistry */
+interface SharedFileVersions {
+  lastVersion: number
+  /** The last contents seen for each file which has not been updated, with the version given to them */
+  contentVersions: Map<string, { contents: string; version: string }>
+}
+
+const registryFileVersions = new WeakMap<DocumentRegistry, SharedFileVersions>()
+
 /**
  * Creates an object which can host a language service against the virtual file-system
+ *
+ * When a DocumentRegistry is passed in, file versions are unique between all of the hosts which share it. Files
+ * which haven't been updated keep their version while their contents are the same as the last host which read
+ * them, so that the same lib file can be shared between environments but a different copy of it can't.
  */
 export function createVirtualLanguageServiceHost(
   sys: System,
   rootFiles: string[],
   compilerOptions: CompilerOptions,
   ts: TS,
-  customTransformers?: CustomTransformers
+  customTransformers?: CustomTransformers,
+  documentRegistry?: DocumentRegistry
 ) {
-  const fileNames = [...rootFiles]
-  const { compilerHost, updateFile } = createVirtualCompilerHost(sys, compilerOptions, ts)
+  let fileNames = [...rootFiles]
+  let settings = compilerOptions
+  const { compilerHost, updateFile, deleteFile } = createVirtualCompilerHost(sys, compilerOptions, ts)
   const fileVersions = new Map<string, string>()
+  const versions = (documentRegistry && registryFileVersions.get(documentRegistry)) || {
+    lastVersion: 0,
+    contentVersions: new Map(),
+  }
+  if (documentRegistry) registryFileVersions.set(documentRegistry, versions)
+
   let projectVersion = 0
   const languageServiceHost: LanguageServiceHost = {
     ...compilerHost,
+    getDefaultLibFileName: () => "/" + ts.getDefaultLibFileName(settings),
     getProjectVersion: () => projectVersion.toString(),
-    getCompilationSettings: () => compilerOptions,
+    getCompilationSettings: () => settings,
     getCustomTransformers: () => customTransformers,
     getScriptFileNames: () => fileNames,
     getScriptSnapshot: fileName => {
       const contents = sys.readFile(fileName)
-      if (contents) {
+      if (contents !== undefined) {
         return ts.ScriptSnapshot.fromString(contents)
       }
       return
     },
     getScriptVersion: fileName => {
-      return fileVersions.get(fileName) || "0"
+      const version = fileVersions.get(fileName)
+      if (version) return version
+
+      const contents = sys.readFile(fileName)
+      if (contents === undefined) return "0"
+
+      const known = versions.contentVersions.get(fileName)
+      const contentVersion = known && known.contents === contents ? known.version : `c${++versions.lastVersion}`
+      versions.contentVersions.set(fileName, { contents, version: contentVersion })
+      fileVersions.set(fileName, contentVersion)
+      return contentVersion
     },
     writeFile: sys.writeFile,
   }
@@ -558,18 +1957,36 @@ export function createVirtualLanguageServiceHost(
   type Return = {
     languageServiceHost: LanguageServiceHost
     updateFile: (sourceFile: import("typescript").SourceFile) => void
+    deleteFile: (fileName: string) => void
+    setRootFiles: (rootFiles: string[]) => void
+    updateCompilerOptions: (compilerOptions: CompilerOptions) => void
   }
 
   const lsHost: Return = {
     languageServiceHost,
     updateFile: sourceFile => {
       projectVersion++
-      fileVersions.set(sourceFile.fileName, projectVersion.toString())
+      versions.lastVersion++
+      fileVersions.set(sourceFile.fileName, versions.lastVersion.toString())
       if (!fileNames.includes(sourceFile.fileName)) {
         fileNames.push(sourceFile.fileName)
       }
       updateFile(sourceFile)
     },
+    deleteFile: fileName => {
+      projectVersion++
+      fileVersions.delete(fileName)
+      fileNames = fileNames.filter(f => f !== fileName)
+      deleteFile(fileName)
+    },
+    setRootFiles: newRootFiles => {
+      projectVersion++
+      fileNames = [...newRootFiles]
+    },
+    updateCompilerOptions: newCompilerOptions => {
+      projectVersion++
+      settings = { ...settings, ...newCompilerOptions }
+    },
   }
   return lsHost
 }
@@ -581,3 +1998,7 @@ const requirePath = () => {
 const requireFS = () => {
   return require(String.fromCharCode(102, 115)) as typeof import("fs")
 }
+
+const requireZlib = () => {
+  return require(String.fromCharCode(122, 108, 105, 98)) as typeof import("zlib")
+}
@@ -0,0 +1,96 @@
+import { createSystem, createDefaultMapFromNodeModules, buildVirtualSolution } from "../src"
+import ts from "typescript"
+
+const createSolution = () => {
+  const fsMap = createDefaultMapFromNodeModules({ target: ts.ScriptTarget.ES2019 })
+  const compilerOptions = { composite: true, target: "ES2019", module: "commonjs", strict: true }
+
+  fsMap.set(
+    "/packages/core/tsconfig.json",
+    JSON.stringify({ compilerOptions: { ...compilerOptions, rootDir: "src", outDir: "dist" }, include: ["src"] })
+  )
+  fsMap.set("/packages/core/src/index.ts", "export const add = (a: number, b: number) => a + b")
+
+  fsMap.set(
+    "/packages/app/tsconfig.json",
+    JSON.stringify({
+      compilerOptions: { ...compilerOptions, rootDir: "src", outDir: "dist" },
+      include: ["src"],
+      references: [{ path: "../core" }],
+    })
+  )
+  fsMap.set("/packages/app/src/index.ts", "import { add } from '../../core/src'\nexport const total = add(1, 2)")
+
+  fsMap.set("/tsconfig.json", JSON.stringify({ files: [], references: [{ path: "packages/app" }] }))
+  return fsMap
+}
+
+it("builds projects with references in order", () => {
+  const fsMap = createSolution()
+  const result = buildVirtualSolution(createSystem(fsMap), ["/tsconfig.json"], ts)
+
+  expect(result.exitStatus).toEqual(ts.ExitStatus.Success)
+  expect(result.diagnostics).toEqual([])
+  expect(result.projects.map(p => p.configFileName)).toEqual([
+    "/packages/core/tsconfig.json",
+    "/packages/app/tsconfig.json",
+  ])
+
+  expect(result.projects[0].emittedFiles).toContain("/packages/core/dist/index.js")
+  expect(result.projects[0].emittedFiles).toContain("/packages/core/dist/index.d.ts")
+  expect(fsMap.get("/packages/app/dist/index.js")).toContain("exports.total")
+  expect(fsMap.has("/packages/app/tsconfig.tsbuildinfo")).toBe(true)
+})
+
+it("only rebuilds the projects which have changed", () => {
+  const fsMap = createSolution()
+  const system = createSystem(fsMap)
+  buildVirtualSolution(system, ["/tsconfig.json"], ts)
+
+  const upToDate = buildVirtualSolution(system, ["/tsconfig.json"], ts)
+  expect(upToDate.projects).toEqual([])
+
+  system.writeFile("/packages/app/src/index.ts", "export const total = 3")
+
+  const rebuilt = buildVirtualSolution(system, ["/tsconfig.json"], ts)
+  expect(rebuilt.projects.map(p => p.configFileName)).toEqual(["/packages/app/tsconfig.json"])
+})
+
+it("rebuilds projects which were changed straight in the Map", () => {
+  const fsMap = createSolution()
+  const system = createSystem(fsMap)
+  buildVirtualSolution(system, ["/tsconfig.json"], ts)
+
+  fsMap.set("/packages/core/src/index.ts", "export const add = (a: number, b: number) => a + b + 0")
+
+  const rebuilt = buildVirtualSolution(system, ["/tsconfig.json"], ts)
+  expect(rebuilt.projects.map(p => p.configFileName)).toEqual([
+    "/packages/core/tsconfig.json",
+    "/packages/app/tsconfig.json",
+  ])
+})
+
+it("reports diagnostics for each project", () => {
+  const fsMap = createSolution()
+  fsMap.set("/packages/core/src/index.ts", "export const add = (a: number, b: number): string => a + b")
+
+  const result = buildVirtualSolution(createSystem(fsMap), ["/tsconfig.json"], ts)
+  expect(result.exitStatus).not.toEqual(ts.ExitStatus.Success)
+
+  const [core] = result.projects
+  expect(core.configFileName).toEqual("/packages/core/tsconfig.json")
+  expect(core.diagnostics.map(d => d.code)).toEqual([2322])
+
+  // The app project can't be built while core has errors
+  expect(result.projects.length).toEqual(1)
+  expect(fsMap.has("/packages/app/dist/index.js")).toBe(false)
+})
+
+it("reports missing references", () => {
+  const fsMap = createSolution()
+  fsMap.set("/tsconfig.json", JSON.stringify({ files: [], references: [{ path: "packages/missing" }] }))
+
+  const result = buildVirtualSolution(createSystem(fsMap), ["/tsconfig.json"], ts)
+  expect(result.exitStatus).not.toEqual(ts.ExitStatus.Success)
+  expect(result.diagnostics.length).toBeGreaterThan(0)
+})
@@ -0,0 +1,101 @@
+import {
+  createSystem,
+  createDefaultMapFromNodeModules,
+  createVirtualTypeScriptEnvironmentFromConfig,
+  VirtualTypeScriptConfigError,
+} from "../src"
+import ts from "typescript"
+
+const createFSMap = (tsconfig: object) => {
+  const fsMap = createDefaultMapFromNodeModules({ target: ts.ScriptTarget.ES2019 })
+  fsMap.set("/tsconfig.json", JSON.stringify(tsconfig))
+  fsMap.set("/tsconfig.base.json", JSON.stringify({ compilerOptions: { strict: true, target: "ES2019" } }))
+  fsMap.set(
+    "/node_modules/@tsconfig/shared/tsconfig.json",
+    JSON.stringify({ compilerOptions: { noUnusedLocals: true, module: "commonjs" } })
+  )
+  fsMap.set("/node_modules/@tsconfig/shared/package.json", JSON.stringify({ name: "@tsconfig/shared" }))
+  fsMap.set("/src/index.ts", "import { helper } from './helper'\nhelper()")
+  fsMap.set("/src/helper.ts", "export const helper = () => {}")
+  fsMap.set("/src/index.test.ts", "")
+  fsMap.set("/scripts/build.ts", "")
+  return fsMap
+}
+
+it("uses the compiler options from the tsconfig", () => {
+  const system = createSystem(createFSMap({ compilerOptions: { noImplicitReturns: true, target: "ES2019" } }))
+  const env = createVirtualTypeScriptEnvironmentFromConfig(system, "/tsconfig.json", ts)
+
+  const options = env.languageService.getProgram()!.getCompilerOptions()
+  expect(options.noImplicitReturns).toBe(true)
+  expect(options.target).toBe(ts.ScriptTarget.ES2019)
+  // The vfs defaults don't leak in
+  expect(options.strict).toBeUndefined()
+})
+
+it("follows extends chains into node_modules", () => {
+  const system = createSystem(createFSMap({ extends: "./tsconfig.base.json" }))
+  system.writeFile(
+    "/tsconfig.base.json",
+    JSON.stringify({ extends: "@tsconfig/shared/tsconfig.json", compilerOptions: { strict: true, target: "ES2019" } })
+  )
+  const env = createVirtualTypeScriptEnvironmentFromConfig(system, "/tsconfig.json", ts)
+
+  const options = env.languageService.getProgram()!.getCompilerOptions()
+  expect(options.strict).toBe(true)
+  expect(options.noUnusedLocals).toBe(true)
+  expect(options.module).toBe(ts.ModuleKind.CommonJS)
+})
+
+it("uses files, include and exclude for the root files", () => {
+  const system = createSystem(
+    createFSMap({
+      extends: "./tsconfig.base.json",
+      files: ["scripts/build.ts"],
+      include: ["src"],
+      exclude: ["**/*.test.ts"],
+    })
+  )
+  const env = createVirtualTypeScriptEnvironmentFromConfig(system, "/tsconfig.json", ts)
+
+  const rootFiles = env.languageService.getProgram()!.getRootFileNames()
+  expect(rootFiles).toEqual(["/scripts/build.ts", "/src/helper.ts", "/src/index.ts"])
+  expect(env.languageService.getSemanticDiagnostics("/src/index.ts")).toEqual([])
+})
+
+describe("errors", () => {
+  const getError = (fn: () => void): VirtualTypeScriptConfigError => {
+    try {
+      fn()
+    } catch (error) {
+      return error as VirtualTypeScriptConfigError
+    }
+    throw new Error("Did not throw")
+  }
+
+  it("includes the diagnostics from the tsconfig", () => {
+    const system = createSystem(createFSMap({ compilerOptions: { notARealOption: true } }))
+    const error = getError(() => createVirtualTypeScriptEnvironmentFromConfig(system, "/tsconfig.json", ts))
+
+    expect(error).toBeInstanceOf(VirtualTypeScriptConfigError)
+    expect(error.configFileName).toEqual("/tsconfig.json")
+    expect(error.diagnostics.map(d => d.code)).toEqual([5023])
+    expect(error.message).toContain("notARealOption")
+  })
+
+  it("handles a missing extends", () => {
+    const system = createSystem(createFSMap({ extends: "./tsconfig.missing.json" }))
+    const error = getError(() => createVirtualTypeScriptEnvironmentFromConfig(system, "/tsconfig.json", ts))
+
+    expect(error.diagnostics.length).toEqual(1)
+    expect(error.message).toContain("tsconfig.missing.json")
+  })
+
+  it("handles a missing tsconfig", () => {
+    const system = createSystem(new Map())
+    const error = getError(() => createVirtualTypeScriptEnvironmentFromConfig(system, "/tsconfig.json", ts))
+
+    expect(error).toBeInstanceOf(VirtualTypeScriptConfigError)
+    expect(error.diagnostics.map(d => d.code)).toEqual([5083])
+  })
+})
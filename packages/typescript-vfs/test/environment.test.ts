@@ -0,0 +1,118 @@
+import { createSystem, createDefaultMapFromNodeModules, createVirtualTypeScriptEnvironment } from "../src"
+import ts from "typescript"
+
+const createEnvironment = () => {
+  const fsMap = createDefaultMapFromNodeModules({})
+  fsMap.set("/index.ts", "import { a } from './a'\nconst b: string = a")
+  fsMap.set("/a.ts", "export const a = 1")
+
+  const system = createSystem(fsMap)
+  const env = createVirtualTypeScriptEnvironment(system, ["/index.ts", "/a.ts"], ts)
+  return { fsMap, env }
+}
+
+const diagnosticCodes = (env: ReturnType<typeof createEnvironment>["env"], fileName: string) =>
+  env.languageService.getSemanticDiagnostics(fileName).map(d => d.code)
+
+describe("deleteFile", () => {
+  it("removes the file from the project", () => {
+    const { env, fsMap } = createEnvironment()
+    env.deleteFile("/a.ts")
+
+    expect(fsMap.has("/a.ts")).toBe(false)
+    expect(env.getSourceFile("/a.ts")).toBeUndefined()
+    expect(env.languageService.getProgram()!.getRootFileNames()).toEqual(["/index.ts"])
+  })
+
+  it("updates the diagnostics of files which used it", () => {
+    const { env } = createEnvironment()
+    expect(diagnosticCodes(env, "/index.ts")).toEqual([2322])
+
+    env.deleteFile("/a.ts")
+    expect(diagnosticCodes(env, "/index.ts")).toEqual([2307])
+
+    env.createFile("/a.ts", "export const a = 'a string'")
+    expect(diagnosticCodes(env, "/index.ts")).toEqual([])
+  })
+
+  it("removes the diagnostics for the file", () => {
+    const { env } = createEnvironment()
+    env.deleteFile("/index.ts")
+
+    const allDiagnostics = env.languageService.getProgram()!.getSemanticDiagnostics()
+    expect(allDiagnostics).toEqual([])
+  })
+})
+
+it("renames files", () => {
+  const { env, fsMap } = createEnvironment()
+  env.renameFile("/a.ts", "/b.ts")
+
+  expect(fsMap.get("/b.ts")).toEqual("export const a = 1")
+  expect(fsMap.has("/a.ts")).toBe(false)
+  expect(env.languageService.getProgram()!.getRootFileNames()).toEqual(["/index.ts", "/b.ts"])
+  expect(diagnosticCodes(env, "/index.ts")).toEqual([2307])
+
+  env.updateFile("/index.ts", "import { a } from './b'\nconst b: number = a")
+  expect(diagnosticCodes(env, "/index.ts")).toEqual([])
+})
+
+it("sets the root files", () => {
+  const { env } = createEnvironment()
+  env.setRootFiles(["/a.ts"])
+
+  expect(env.languageService.getProgram()!.getRootFileNames()).toEqual(["/a.ts"])
+  expect(env.getSourceFile("/index.ts")).toBeUndefined()
+})
+
+it("updates the compiler options", () => {
+  const { env } = createEnvironment()
+  env.createFile("/implicit.ts", "export function f(a) { return a }")
+  expect(diagnosticCodes(env, "/implicit.ts")).toEqual([7006])
+
+  env.updateCompilerOptions({ noImplicitAny: false })
+  expect(env.languageService.getProgram()!.getCompilerOptions().noImplicitAny).toBe(false)
+  expect(diagnosticCodes(env, "/implicit.ts")).toEqual([])
+})
+
+describe("sharing a DocumentRegistry", () => {
+  const createSharedEnvironment = (documentRegistry: ts.DocumentRegistry, code: string) => {
+    const fsMap = createDefaultMapFromNodeModules({})
+    fsMap.set("/index.ts", code)
+    return createVirtualTypeScriptEnvironment(createSystem(fsMap), ["/index.ts"], ts, {}, undefined, documentRegistry)
+  }
+
+  it("shares the lib files", () => {
+    const documentRegistry = ts.createDocumentRegistry()
+    const first = createSharedEnvironment(documentRegistry, "const a = 1")
+    const second = createSharedEnvironment(documentRegistry, "const a = 2")
+
+    expect(first.getSourceFile("/lib.es5.d.ts")).toBe(second.getSourceFile("/lib.es5.d.ts"))
+  })
+
+  it("does not share files with the same name but different contents", () => {
+    const documentRegistry = ts.createDocumentRegistry()
+    const first = createSharedEnvironment(documentRegistry, "const a: string = 1")
+    expect(diagnosticCodes(first, "/index.ts")).toEqual([2322])
+
+    const second = createSharedEnvironment(documentRegistry, "const a: string = 'a'")
+    expect(diagnosticCodes(second, "/index.ts")).toEqual([])
+
+    first.createFile("/a.ts", "export const a = 1")
+    second.createFile("/a.ts", "export const a = 'a'")
+    expect(first.getSourceFile("/a.ts")!.text).toEqual("export const a = 1")
+    expect(second.getSourceFile("/a.ts")!.text).toEqual("export const a = 'a'")
+  })
+
+  it("does not re-use a file's old version when its contents go back to an earlier copy", () => {
+    const documentRegistry = ts.createDocumentRegistry()
+    const first = createSharedEnvironment(documentRegistry, "const a: string = 1")
+    const second = createSharedEnvironment(documentRegistry, "const a: string = 'a'")
+    const third = createSharedEnvironment(documentRegistry, "const a: string = 1")
+
+    expect(diagnosticCodes(first, "/index.ts")).toEqual([2322])
+    expect(diagnosticCodes(second, "/index.ts")).toEqual([])
+    expect(diagnosticCodes(third, "/index.ts")).toEqual([2322])
+    expect(first.getSourceFile("/lib.es5.d.ts")).toBe(third.getSourceFile("/lib.es5.d.ts"))
+  })
+})
@@ -57,3 +57,20 @@ it("can import files in the virtual fs", () => {
 
   expect(errs.map(e => e.messageText)).toEqual([])
 })
+
+it("only includes the @types packages from the virtual fs automatically", () => {
+  const compilerOpts: ts.CompilerOptions = { target: ts.ScriptTarget.ES2016 }
+  const fsMap = new Map<string, string>()
+
+  const monorepoRoot = path.join(__dirname, "..", "..", "..")
+  const index = path.join(monorepoRoot, "fake", "index.ts")
+  fsMap.set(path.join(monorepoRoot, "node_modules", "@types", "virtual", "index.d.ts"), "declare const virtual: string")
+  fsMap.set(index, "virtual; process")
+
+  const system = createFSBackedSystem(fsMap, monorepoRoot, ts)
+  const env = createVirtualTypeScriptEnvironment(system, [index], ts, compilerOpts)
+
+  // process comes from the @types/node in the real node_modules, which isn't in the fsMap
+  const errs = env.languageService.getSemanticDiagnostics(index)
+  expect(errs.map(e => e.start)).toEqual(["virtual; ".length])
+})
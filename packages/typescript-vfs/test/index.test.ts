@@ -102,7 +102,7 @@ it("emits new files to the fsMap", () => {
 
 it("creates a map from the CDN without cache", async () => {
   const fetcher = jest.fn()
-  fetcher.mockResolvedValue({ text: () => Promise.resolve("// Contents of file") })
+  fetcher.mockResolvedValue({ ok: true, text: () => Promise.resolve("// Contents of file") })
   const store = jest.fn() as any
 
   const compilerOpts = { target: ts.ScriptTarget.ES5 }
@@ -119,7 +119,7 @@ it("creates a map from the CDN without cache", async () => {
 
 it("creates a map from the CDN and stores it in local storage cache", async () => {
   const fetcher = jest.fn()
-  fetcher.mockResolvedValue({ text: () => Promise.resolve("// Contents of file") })
+  fetcher.mockResolvedValue({ ok: true, text: () => Promise.resolve("// Contents of file") })
 
   const store: any = {
     getItem: jest.fn(),
@@ -140,7 +140,7 @@ it("creates a map from the CDN and stores it in local storage cache", async () =
 
 it("creates a map from the CDN and uses the existing local storage cache", async () => {
   const fetcher = jest.fn()
-  fetcher.mockResolvedValue({ text: () => Promise.resolve("// Contents of file") })
+  fetcher.mockResolvedValue({ ok: true, text: () => Promise.resolve("// Contents of file") })
 
   const store: any = {
     getItem: jest.fn(),
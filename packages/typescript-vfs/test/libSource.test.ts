@@ -0,0 +1,152 @@
+import {
+  createDefaultMapFromLibSource,
+  createMemoryLibCacheStore,
+  createFSBackedLibCacheStore,
+  createLocalStorageLibCacheStore,
+  knownLibFilesForCompilerOptions,
+} from "../src"
+import ts from "typescript"
+import http from "http"
+import { AddressInfo } from "net"
+import { mkdtempSync, readdirSync } from "fs"
+import { tmpdir } from "os"
+import { join } from "path"
+
+const compilerOpts = { target: ts.ScriptTarget.ES5 }
+const libs = knownLibFilesForCompilerOptions(compilerOpts, ts)
+
+// A stand-in for the CDN, which serves each lib file and a bundle of all of them
+let server: http.Server
+let baseURL: string
+let requests: string[] = []
+
+beforeAll(done => {
+  server = http.createServer((req, res) => {
+    requests.push(req.url!)
+    const bundle = req.url!.match(/^\/bundles\/(.*)\.json$/)
+    if (bundle) {
+      const contents: Record<string, string> = {}
+      libs.forEach(lib => (contents[lib] = `// ${lib} from the ${bundle[1]} bundle`))
+      res.end(JSON.stringify(contents))
+    } else if (req.url!.startsWith("/missing/")) {
+      res.statusCode = 404
+      res.end("Not found")
+    } else {
+      res.end(`// ${req.url}`)
+    }
+  })
+  server.listen(0, () => {
+    baseURL = `http://localhost:${(server.address() as AddressInfo).port}`
+    done()
+  })
+})
+
+afterAll(done => server.close(done))
+beforeEach(() => (requests = []))
+
+// Node doesn't have a global fetch, so this is just enough of one for the vfs
+const fetcher = ((url: string) =>
+  new Promise(resolve => {
+    http.get(url, res => {
+      let text = ""
+      res.on("data", chunk => (text += chunk))
+      res.on("end", () =>
+        resolve({ ok: res.statusCode === 200, status: res.statusCode, text: () => Promise.resolve(text) })
+      )
+    })
+  })) as any
+
+it("fetches the libs from a mirror", async () => {
+  const map = await createDefaultMapFromLibSource(compilerOpts, "4.7.3", ts, {
+    baseURL: baseURL + "/mirror/{version}/",
+    fetcher,
+  })
+
+  expect(map.get("/lib.d.ts")).toEqual("// /mirror/4.7.3/lib.d.ts")
+  expect(requests.length).toEqual(libs.length)
+})
+
+it("fetches all of the libs in one request from a bundle", async () => {
+  const map = await createDefaultMapFromLibSource(compilerOpts, "4.7.3", ts, {
+    bundleURL: baseURL + "/bundles/{version}.json",
+    fetcher,
+  })
+
+  libs.forEach(lib => expect(map.get("/" + lib)).toEqual(`// ${lib} from the 4.7.3 bundle`))
+  expect(requests).toEqual(["/bundles/4.7.3.json"])
+})
+
+it("rejects when the server does not respond with the file", async () => {
+  const options = { bundleURL: baseURL + "/missing/{version}.json", fetcher }
+  await expect(createDefaultMapFromLibSource(compilerOpts, "4.7.3", ts, options)).rejects.toThrow(
+    `Could not download ${baseURL}/missing/4.7.3.json, the server responded with 404`
+  )
+})
+
+it("does not need fetch when the store has every lib", async () => {
+  const store = createMemoryLibCacheStore()
+  libs.forEach(lib => store.setItem(`ts-lib-4.7.3-${lib}`, `// ${lib} from the store`))
+
+  const map = await createDefaultMapFromLibSource(compilerOpts, "4.7.3", ts, { store })
+  expect(map.get("/lib.d.ts")).toEqual("// lib.d.ts from the store")
+})
+
+it("only fetches the libs which are not in the store", async () => {
+  const store = createMemoryLibCacheStore()
+  store.setItem("ts-lib-4.7.3-lib.d.ts", "// From the store")
+
+  const options = { store, baseURL: baseURL + "/{version}/", fetcher }
+  const first = await createDefaultMapFromLibSource(compilerOpts, "4.7.3", ts, options)
+  expect(first.get("/lib.d.ts")).toEqual("// From the store")
+  expect(requests.length).toEqual(libs.length - 1)
+
+  requests = []
+  await createDefaultMapFromLibSource(compilerOpts, "4.7.3", ts, options)
+  expect(requests).toEqual([])
+})
+
+it("removes libs from other versions from the store", async () => {
+  const store = createMemoryLibCacheStore()
+  store.setItem("ts-lib-4.6.0-lib.d.ts", "// Old")
+  store.setItem("something-else", "")
+
+  await createDefaultMapFromLibSource(compilerOpts, "4.7.3", ts, { store, baseURL: baseURL + "/", fetcher })
+  const keys = store.keys!() as string[]
+  expect(keys).not.toContain("ts-lib-4.6.0-lib.d.ts")
+  expect(keys).toContain("something-else")
+  expect(keys).toContain("ts-lib-4.7.3-lib.d.ts")
+})
+
+it("can keep the libs in a folder", async () => {
+  const directory = join(mkdtempSync(join(tmpdir(), "vfs-")), "libs")
+  const options = {
+    store: createFSBackedLibCacheStore(directory),
+    bundleURL: baseURL + "/bundles/{version}.json",
+    fetcher,
+  }
+
+  await createDefaultMapFromLibSource(compilerOpts, "4.7.3", ts, options)
+  expect(readdirSync(directory).length).toEqual(libs.length)
+
+  requests = []
+  const map = await createDefaultMapFromLibSource(compilerOpts, "4.7.3", ts, options)
+  expect(requests).toEqual([])
+  expect(map.get("/lib.d.ts")).toEqual("// lib.d.ts from the 4.7.3 bundle")
+})
+
+it("compresses libs in localStorage-like stores", async () => {
+  const storage = new Map<string, string>()
+  const lzstring = { compressToUTF16: (s: string) => "zip:" + s, decompressFromUTF16: (s: string) => s.slice(4) }
+  const store = createLocalStorageLibCacheStore(
+    {
+      getItem: key => storage.get(key) || null,
+      setItem: (key, value) => storage.set(key, value),
+      removeItem: () => {},
+    },
+    lzstring as any
+  )
+
+  await store.setItem("ts-lib-4.7.3-lib.d.ts", "// lib")
+  expect(storage.get("ts-lib-4.7.3-lib.d.ts")).toEqual("zip:// lib")
+  expect(await store.getItem("ts-lib-4.7.3-lib.d.ts")).toEqual("// lib")
+})
@@ -0,0 +1,133 @@
+import {
+  createSystem,
+  createDefaultMapFromNodeModules,
+  createVirtualTypeScriptEnvironment,
+  loadPluginFromSystem,
+  VirtualPluginModuleFactory,
+} from "../src"
+import ts from "typescript"
+
+/** A plugin which adds a completion, whose name comes from the plugin's config */
+const completionPlugin: VirtualPluginModuleFactory<{ completion: string }> = ({ typescript }) => ({
+  create: info => {
+    const proxy: ts.LanguageService = Object.create(null)
+    proxy.getCompletionsAtPosition = (fileName, position, options) => {
+      const prior = info.languageService.getCompletionsAtPosition(fileName, position, options)
+      if (!prior) return prior
+
+      const entry = {
+        name: info.config.completion,
+        kind: typescript.ScriptElementKind.keyword,
+        kindModifiers: "",
+        sortText: "0",
+      }
+      return { ...prior, entries: [entry, ...prior.entries] }
+    }
+    info.project.projectService.logger.info("Made the completion plugin")
+    return proxy
+  },
+})
+
+const createFiles = () => {
+  const fsMap = createDefaultMapFromNodeModules({})
+  fsMap.set("/index.ts", "const hello = 'hi'\nhel")
+  return fsMap
+}
+
+const getCompletions = (languageService: ts.LanguageService) =>
+  languageService.getCompletionsAtPosition("/index.ts", 22, {})!.entries.map(entry => entry.name)
+
+it("wraps the language service with plugin factories", () => {
+  const env = createVirtualTypeScriptEnvironment(
+    createSystem(createFiles()),
+    ["/index.ts"],
+    ts,
+    {},
+    undefined,
+    undefined,
+    [{ name: "completions", factory: completionPlugin, config: { completion: "fromFactory" } }]
+  )
+
+  expect(getCompletions(env.languageService)[0]).toEqual("fromFactory")
+  // Methods the plugin didn't wrap still work
+  expect(env.languageService.getSemanticDiagnostics("/index.ts").map(d => d.code)).toEqual([2304])
+})
+
+it("uses the config from the plugins compiler option", () => {
+  const plugin = { name: "completions", completion: "fromCompilerOptions" }
+  const compilerOptions: ts.CompilerOptions = { plugins: [plugin] }
+  const env = createVirtualTypeScriptEnvironment(
+    createSystem(createFiles()),
+    ["/index.ts"],
+    ts,
+    compilerOptions,
+    undefined,
+    undefined,
+    [{ name: "completions", factory: completionPlugin }]
+  )
+
+  expect(getCompletions(env.languageService)[0]).toEqual("fromCompilerOptions")
+})
+
+const addPluginToNodeModules = (fsMap: Map<string, string>) => {
+  fsMap.set("/node_modules/vfs-plugin/package.json", JSON.stringify({ name: "vfs-plugin", main: "lib/plugin" }))
+  fsMap.set(
+    "/node_modules/vfs-plugin/lib/plugin.js",
+    `
+    const { prefix } = require("./prefix")
+    module.exports = ({ typescript }) => ({
+      create: info => ({
+        ...info.languageService,
+        getQuickInfoAtPosition: (fileName, position) => {
+          const prior = info.languageService.getQuickInfoAtPosition(fileName, position)
+          const text = prefix + info.config.suffix + typescript.displayPartsToString(prior.displayParts)
+          return { ...prior, displayParts: [{ kind: "text", text }] }
+        },
+      }),
+    })
+    `
+  )
+  fsMap.set("/node_modules/vfs-plugin/lib/prefix.js", "exports.prefix = '[plugin'")
+}
+
+it("loads plugins from node_modules in the vfs when asked to", () => {
+  const fsMap = createFiles()
+  addPluginToNodeModules(fsMap)
+
+  const plugin = { name: "vfs-plugin", suffix: "] " }
+  const compilerOptions: ts.CompilerOptions = { plugins: [plugin] }
+  const system = createSystem(fsMap)
+  const env = createVirtualTypeScriptEnvironment(system, ["/index.ts"], ts, compilerOptions, undefined, undefined, [
+    loadPluginFromSystem(system, "vfs-plugin", ts),
+  ])
+
+  const quickInfo = env.languageService.getQuickInfoAtPosition("/index.ts", 7)!
+  expect(ts.displayPartsToString(quickInfo.displayParts)).toEqual(`[plugin] const hello: "hi"`)
+})
+
+it("throws when a plugin can't be loaded from the vfs", () => {
+  expect(() => loadPluginFromSystem(createSystem(createFiles()), "missing-plugin", ts)).toThrow(
+    "Could not find the module missing-plugin from / in the virtual file system"
+  )
+})
+
+it("skips plugins in the compiler option which don't have a factory", () => {
+  const fsMap = createFiles()
+  // The plugin's code in the vfs isn't run unless it was loaded with loadPluginFromSystem
+  addPluginToNodeModules(fsMap)
+  const plugin = { name: "completions", completion: "fromCompilerOptions" }
+  const compilerOptions: ts.CompilerOptions = { plugins: [{ name: "vfs-plugin" }, plugin] }
+  const env = createVirtualTypeScriptEnvironment(
+    createSystem(fsMap),
+    ["/index.ts"],
+    ts,
+    compilerOptions,
+    undefined,
+    undefined,
+    [{ name: "completions", factory: completionPlugin }]
+  )
+
+  expect(getCompletions(env.languageService)[0]).toEqual("fromCompilerOptions")
+  const quickInfo = env.languageService.getQuickInfoAtPosition("/index.ts", 7)!
+  expect(ts.displayPartsToString(quickInfo.displayParts)).toEqual(`const hello: "hi"`)
+})
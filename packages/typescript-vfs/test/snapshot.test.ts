@@ -0,0 +1,104 @@
+import {
+  createSystem,
+  createDefaultMapFromNodeModules,
+  createVirtualTypeScriptEnvironment,
+  snapshotFileSystem,
+  diffFileSystems,
+  serializeVirtualEnvironment,
+  restoreVirtualEnvironment,
+} from "../src"
+import ts from "typescript"
+
+describe(diffFileSystems, () => {
+  it("shows what a compile wrote", () => {
+    const fsMap = createDefaultMapFromNodeModules({})
+    fsMap.set("/index.ts", "export const hello = 'hi'")
+
+    const env = createVirtualTypeScriptEnvironment(createSystem(fsMap), ["/index.ts"], ts, {
+      declaration: true,
+      sourceMap: true,
+    })
+    const before = snapshotFileSystem(fsMap)
+    env.languageService.getProgram()!.emit(undefined, env.sys.writeFile)
+
+    const diff = diffFileSystems(before, fsMap)
+    expect(diff.added.map(file => file.fileName)).toEqual(["/index.js.map", "/index.js", "/index.d.ts"])
+    expect(diff.added[2].diff).toEqual(
+      ["--- /dev/null", "+++ /index.d.ts", "@@ -0,0 +1,2 @@", '+export declare const hello = "hi";', "+"].join("\n")
+    )
+    expect(diff.changed).toEqual([])
+    expect(diff.removed).toEqual([])
+  })
+
+  it("makes unified diffs of changed files", () => {
+    const lines = ["1", "2", "3", "4", "5", "6", "7", "8", "9", "10", "11", "12"]
+    const before = new Map([
+      ["/a.ts", lines.join("\n")],
+      ["/b.ts", "removed"],
+    ])
+    const after = new Map([
+      ["/a.ts", lines.map(line => (line === "2" ? "two" : line === "11" ? "eleven" : line)).join("\n")],
+    ])
+
+    const diff = diffFileSystems(before, after)
+    expect(diff.changed[0].diff).toEqual(
+      [
+        "--- /a.ts",
+        "+++ /a.ts",
+        "@@ -1,5 +1,5 @@",
+        " 1",
+        "-2",
+        "+two",
+        " 3",
+        " 4",
+        " 5",
+        "@@ -8,5 +8,5 @@",
+        " 8",
+        " 9",
+        " 10",
+        "-11",
+        "+eleven",
+        " 12",
+      ].join("\n")
+    )
+    expect(diff.removed).toEqual([{ fileName: "/b.ts", diff: "--- /b.ts\n+++ /dev/null\n@@ -1,1 +0,0 @@\n-removed" }])
+  })
+
+  it("finds the smallest set of changed lines", () => {
+    const before = new Map([["/a.ts", "a\nb\nc\nd"]])
+    const after = new Map([["/a.ts", "a\nc\nx\nd"]])
+
+    expect(diffFileSystems(before, after).changed[0].diff).toEqual(
+      "--- /a.ts\n+++ /a.ts\n@@ -1,4 +1,4 @@\n a\n-b\n c\n+x\n d"
+    )
+  })
+})
+
+describe(serializeVirtualEnvironment, () => {
+  it("restores an environment from JSON", () => {
+    const fsMap = createDefaultMapFromNodeModules({})
+    fsMap.set("/index.ts", "import { value } from './value'\nexport const doubled = value * 2")
+    fsMap.set("/value.ts", "export const value = 21")
+    const env = createVirtualTypeScriptEnvironment(createSystem(fsMap), ["/index.ts"], ts, { strict: false })
+
+    const json = serializeVirtualEnvironment(env, fsMap)
+    const saved = JSON.parse(json)
+    expect(Object.keys(saved.files)).toEqual(["/index.ts", "/value.ts"])
+    expect(saved.rootFiles).toEqual(["/index.ts"])
+
+    const restored = restoreVirtualEnvironment(json, ts, createDefaultMapFromNodeModules({}))
+    const program = restored.languageService.getProgram()!
+    expect(program.getCompilerOptions().strict).toEqual(false)
+    expect(restored.getSourceFile("/value.ts")!.text).toEqual("export const value = 21")
+    expect(restored.languageService.getSemanticDiagnostics("/index.ts")).toEqual([])
+  })
+
+  it("can include the lib files", () => {
+    const fsMap = createDefaultMapFromNodeModules({})
+    fsMap.set("/index.ts", "")
+    const env = createVirtualTypeScriptEnvironment(createSystem(fsMap), ["/index.ts"], ts)
+
+    const saved = JSON.parse(serializeVirtualEnvironment(env, fsMap, { includeLibFiles: true }))
+    expect(saved.files["/lib.d.ts"]).toEqual(fsMap.get("/lib.d.ts"))
+  })
+})
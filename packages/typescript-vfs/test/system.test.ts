@@ -0,0 +1,247 @@
+import { createSystem, createDefaultMapFromNodeModules, createVirtualTypeScriptEnvironment } from "../src"
+import ts from "typescript"
+
+const createProject = () =>
+  new Map([
+    ["/project/tsconfig.json", JSON.stringify({ compilerOptions: { strict: true }, include: ["src"] })],
+    ["/project/src/index.ts", "export const a = 1"],
+    ["/project/src/utils/strings.ts", "export const b = ''"],
+    ["/project/src/utils/data.json", "{}"],
+    ["/project/src/.hidden/secret.ts", ""],
+    ["/project/test/index.test.ts", ""],
+    ["/project/node_modules/lib/index.d.ts", ""],
+    ["/projectile.ts", ""],
+  ])
+
+describe("directories", () => {
+  it("knows which directories exist", () => {
+    const system = createSystem(createProject())
+
+    expect(system.directoryExists("/")).toBe(true)
+    expect(system.directoryExists("/project")).toBe(true)
+    expect(system.directoryExists("/project/src/utils/")).toBe(true)
+    expect(system.directoryExists("/proj")).toBe(false)
+    expect(system.directoryExists("/project/src/index.ts")).toBe(false)
+  })
+
+  it("lists the directories in a directory", () => {
+    const system = createSystem(createProject())
+
+    expect(system.getDirectories("/")).toEqual(["project"])
+    expect(system.getDirectories("/project")).toEqual(["node_modules", "src", "test"])
+    expect(system.getDirectories("/project/src/utils")).toEqual([])
+  })
+
+  it("can create empty directories", () => {
+    const system = createSystem(new Map())
+    system.createDirectory("/a/b")
+
+    expect(system.directoryExists("/a/b")).toBe(true)
+    expect(system.getDirectories("/a")).toEqual(["b"])
+    expect(system.readDirectory("/a")).toEqual([])
+  })
+
+  it("can delete files", () => {
+    const fsMap = createProject()
+    const system = createSystem(fsMap)
+    system.deleteFile!("/project/test/index.test.ts")
+
+    expect(fsMap.has("/project/test/index.test.ts")).toBe(false)
+    expect(system.directoryExists("/project/test")).toBe(false)
+  })
+
+  it("notices files which are added to or removed from the Map", () => {
+    const fsMap = createProject()
+    const system = createSystem(fsMap)
+    expect(system.getDirectories("/project")).toEqual(["node_modules", "src", "test"])
+
+    fsMap.set("/project/docs/index.md", "")
+    expect(system.getDirectories("/project")).toEqual(["docs", "node_modules", "src", "test"])
+
+    fsMap.delete("/project/test/index.test.ts")
+    expect(system.directoryExists("/project/test")).toBe(false)
+    expect(system.getDirectories("/project")).toEqual(["docs", "node_modules", "src"])
+  })
+
+  it("resolves real paths", () => {
+    const system = createSystem(createProject())
+    expect(system.realpath!("/project/src/../test/./index.test.ts")).toEqual("/project/test/index.test.ts")
+  })
+})
+
+describe("readDirectory", () => {
+  const system = createSystem(createProject())
+
+  it("lists all files inside a directory", () => {
+    expect(system.readDirectory("/project/src")).toEqual([
+      "/project/src/index.ts",
+      "/project/src/.hidden/secret.ts",
+      "/project/src/utils/data.json",
+      "/project/src/utils/strings.ts",
+    ])
+  })
+
+  it("filters by extension", () => {
+    expect(system.readDirectory("/project/src/utils", [".ts"])).toEqual(["/project/src/utils/strings.ts"])
+  })
+
+  it("handles includes like TypeScript", () => {
+    expect(system.readDirectory("/project", [".ts"], undefined, ["src"])).toEqual([
+      "/project/src/index.ts",
+      "/project/src/utils/strings.ts",
+    ])
+    expect(system.readDirectory("/project", [".ts"], undefined, ["**/*"])).toEqual([
+      "/project/src/index.ts",
+      "/project/src/utils/strings.ts",
+      "/project/test/index.test.ts",
+    ])
+    expect(system.readDirectory("/project", undefined, undefined, ["src/*/*.json"])).toEqual([
+      "/project/src/utils/data.json",
+    ])
+  })
+
+  it("handles excludes like TypeScript", () => {
+    expect(system.readDirectory("/project", [".ts"], ["src/utils", "**/*.test.ts"], ["**/*"])).toEqual([
+      "/project/src/index.ts",
+    ])
+  })
+
+  it("handles depth", () => {
+    expect(system.readDirectory("/project/src", undefined, undefined, undefined, 1)).toEqual(["/project/src/index.ts"])
+  })
+})
+
+it("works with getParsedCommandLineOfConfigFile", () => {
+  const system = createSystem(createProject())
+  const host: ts.ParseConfigFileHost = { ...system, onUnRecoverableConfigFileDiagnostic: () => {} }
+
+  const config = ts.getParsedCommandLineOfConfigFile("/project/tsconfig.json", {}, host)!
+  expect(config.errors).toEqual([])
+  expect(config.options.strict).toBe(true)
+  expect(config.fileNames).toEqual(["/project/src/index.ts", "/project/src/utils/strings.ts"])
+})
+
+it("resolves modules from node_modules in nested directories", () => {
+  const fsMap = createDefaultMapFromNodeModules({})
+  fsMap.set("/node_modules/lib/package.json", JSON.stringify({ name: "lib", types: "types/main.d.ts" }))
+  fsMap.set("/node_modules/lib/types/main.d.ts", "export const lib: string")
+  fsMap.set("/index.ts", "import { lib } from 'lib'")
+
+  const system = createSystem(fsMap)
+  const env = createVirtualTypeScriptEnvironment(system, ["/index.ts"], ts)
+
+  expect(env.languageService.getSemanticDiagnostics("/index.ts")).toEqual([])
+})
+
+it("includes the global types from node_modules/@types", () => {
+  const fsMap = createDefaultMapFromNodeModules({})
+  fsMap.set("/node_modules/@types/greeter/index.d.ts", "declare function greet(name: string): string")
+  fsMap.set("/index.ts", "greet('world').toUpperCase()")
+
+  const system = createSystem(fsMap)
+  const env = createVirtualTypeScriptEnvironment(system, ["/index.ts"], ts)
+
+  expect(env.languageService.getSemanticDiagnostics("/index.ts")).toEqual([])
+})
+
+describe("case-insensitive file names", () => {
+  const createFiles = () =>
+    new Map([
+      ["/src/Utils.ts", "export const a = 1"],
+      ["/src/index.ts", "import { a } from './utils'"],
+    ])
+
+  it("finds files with any casing", () => {
+    const fsMap = createFiles()
+    const system = createSystem(fsMap, { useCaseSensitiveFileNames: false })
+
+    expect(system.useCaseSensitiveFileNames).toBe(false)
+    expect(system.fileExists("/SRC/utils.TS")).toBe(true)
+    expect(system.readFile("/src/utils.ts")).toEqual("export const a = 1")
+    expect(system.directoryExists("/Src")).toBe(true)
+    expect(system.readDirectory("/SRC", undefined, undefined, ["utils.ts"])).toEqual(["/SRC/Utils.ts"])
+
+    // Writing keeps the original name
+    system.writeFile("/src/UTILS.ts", "export const a = 2")
+    expect(Array.from(fsMap.keys())).toEqual(["/src/Utils.ts", "/src/index.ts"])
+    expect(fsMap.get("/src/Utils.ts")).toEqual("export const a = 2")
+  })
+
+  it("raises errors for inconsistent casing", () => {
+    const fsMap = createDefaultMapFromNodeModules({})
+    createFiles().forEach((contents, fileName) => fsMap.set(fileName, contents))
+    const rootFiles = ["/src/index.ts", "/src/Utils.ts"]
+    const compilerOptions = { forceConsistentCasingInFileNames: true }
+
+    const getErrors = (system: ts.System) => {
+      const env = createVirtualTypeScriptEnvironment(system, rootFiles, ts, compilerOptions)
+      const program = env.languageService.getProgram()!
+      return ts.getPreEmitDiagnostics(program).map(d => ts.flattenDiagnosticMessageText(d.messageText, "\n"))
+    }
+
+    const insensitive = getErrors(createSystem(fsMap, { useCaseSensitiveFileNames: false }))
+    expect(insensitive.length).toEqual(1)
+    expect(insensitive[0]).toContain("'/src/utils.ts' differs from file name '/src/Utils.ts' only in casing")
+
+    const sensitive = getErrors(createSystem(fsMap))
+    expect(sensitive).toEqual(["Cannot find module './utils' or its corresponding type declarations."])
+  })
+})
+
+describe("windows paths", () => {
+  const createFiles = () => {
+    const fsMap = createDefaultMapFromNodeModules({})
+    fsMap.set("C:\\Project\\tsconfig.json", JSON.stringify({ include: ["src"] }))
+    fsMap.set("C:\\Project\\src\\index.ts", "import { add } from './lib/Math'\nexport const total: string = add(1, 2)")
+    fsMap.set("C:\\Project\\src\\lib\\math.ts", "export const add = (a: number, b: number) => a + b")
+    return fsMap
+  }
+
+  it("understands backslashes and drive letters", () => {
+    const system = createSystem(createFiles(), { windowsPaths: true })
+
+    expect(system.getCurrentDirectory()).toEqual("C:/")
+    expect(system.useCaseSensitiveFileNames).toBe(false)
+    expect(system.fileExists("c:/project/src/index.ts")).toBe(true)
+    expect(system.directoryExists("C:\\Project\\src\\lib")).toBe(true)
+    expect(system.getDirectories("C:/")).toEqual(["Project"])
+    expect(system.readDirectory("C:/Project", [".ts"])).toEqual([
+      "C:/Project/src/index.ts",
+      "C:/Project/src/lib/math.ts",
+    ])
+  })
+
+  it("type-checks a project on a drive", () => {
+    const system = createSystem(createFiles(), { windowsPaths: true })
+    const host: ts.ParseConfigFileHost = { ...system, onUnRecoverableConfigFileDiagnostic: () => {} }
+    const config = ts.getParsedCommandLineOfConfigFile("C:/Project/tsconfig.json", {}, host)!
+    expect(config.fileNames).toEqual(["C:/Project/src/index.ts", "C:/Project/src/lib/math.ts"])
+
+    const env = createVirtualTypeScriptEnvironment(system, config.fileNames, ts, config.options)
+    const errors = env.languageService.getSemanticDiagnostics("C:/Project/src/index.ts")
+    expect(errors.map(e => [e.file!.fileName, e.code])).toEqual([["C:/Project/src/index.ts", 2322]])
+  })
+})
+
+describe("modified times", () => {
+  it("gives files which were already in the Map the time the System was made", () => {
+    const before = Date.now()
+    const system = createSystem(createProject())
+
+    expect(system.getModifiedTime!("/project/src/index.ts")!.getTime()).toBeGreaterThanOrEqual(before)
+  })
+
+  it("notices edits made straight to the Map without changing the Map", () => {
+    const fsMap = createProject()
+    const system = createSystem(fsMap)
+    const first = system.getModifiedTime!("/project/src/index.ts")!
+
+    fsMap.set("/project/src/index.ts", "export const a = 2")
+    fsMap.set("/project/src/new.ts", "")
+
+    expect(system.getModifiedTime!("/project/src/index.ts")!.getTime()).toBeGreaterThan(first.getTime())
+    expect(system.readDirectory("/project/src", [".ts"])).toContain("/project/src/new.ts")
+    expect(fsMap.set).toBe(Map.prototype.set)
+    expect(fsMap.delete).toBe(Map.prototype.delete)
+  })
+})
@@ -0,0 +1,234 @@
+import {
+  addPackageFromTarball,
+  addPackagesFromLockfile,
+  createDefaultMapFromNodeModules,
+  createSystem,
+  createVirtualTypeScriptEnvironment,
+} from "../src"
+import ts from "typescript"
+import { gzipSync } from "zlib"
+import { mkdtempSync, readFileSync, writeFileSync } from "fs"
+import { tmpdir } from "os"
+import { join } from "path"
+
+/** Makes a gzipped tarball like `npm pack` does, with every file inside a `package/` folder */
+const pack = (files: Record<string, string>) => {
+  const blocks: Buffer[] = []
+  Object.keys(files).forEach(name => {
+    const contents = Buffer.from(files[name])
+    const header = Buffer.alloc(512)
+    header.write("package/" + name, 0)
+    header.write("0000644\0", 100)
+    header.write(contents.length.toString(8).padStart(11, "0") + "\0", 124)
+    header.write("0", 156)
+    header.write("ustar\u000000", 257)
+    header.write("        ", 148)
+    const checksum = header.reduce((sum, byte) => sum + byte, 0)
+    header.write(checksum.toString(8).padStart(6, "0") + "\0 ", 148)
+
+    blocks.push(header, contents, Buffer.alloc((512 - (contents.length % 512)) % 512))
+  })
+  blocks.push(Buffer.alloc(1024))
+  return gzipSync(Buffer.concat(blocks))
+}
+
+const packageJSON = (name: string, version: string, fields: object = {}) => JSON.stringify({ name, version, ...fields })
+
+const getErrors = (fsMap: Map<string, string>, code: string, compilerOptions: ts.CompilerOptions = {}) => {
+  fsMap.set("/index.ts", code)
+  const env = createVirtualTypeScriptEnvironment(createSystem(fsMap), ["/index.ts"], ts, compilerOptions)
+  return env.languageService
+    .getSemanticDiagnostics("/index.ts")
+    .map(d => ts.flattenDiagnosticMessageText(d.messageText, "\n"))
+}
+
+describe(addPackageFromTarball, () => {
+  // The same tarballs are used in the tests for @typescript/ata, which has a copy of the tar reader
+  it.each(["gnu", "pax", "ustar"])("reads the long file names in a %s tarball", format => {
+    const fsMap = new Map<string, string>()
+    addPackageFromTarball(fsMap, readFileSync(join(__dirname, "fixtures", `long-names-${format}.tar`)))
+
+    const longName =
+      "lib/a-folder-with-quite-a-long-name/another-folder-with-quite-a-long-name/a-file-with-a-long-name.d.ts"
+    expect(Array.from(fsMap.keys()).sort()).toEqual([
+      "/node_modules/long-names/index.d.ts",
+      `/node_modules/long-names/${longName}`,
+      "/node_modules/long-names/package.json",
+    ])
+    expect(fsMap.get(`/node_modules/long-names/${longName}`)).toEqual(
+      "/** Café */\nexport declare const long: string\n"
+    )
+  })
+
+  it("only adds the type files and package.json", () => {
+    const fsMap = new Map<string, string>()
+    const tarball = pack({
+      "package.json": packageJSON("@scope/lib", "1.2.3", { types: "index.d.ts" }),
+      "index.d.ts": "export const lib: string",
+      "index.js": "exports.lib = ''",
+      "esm/index.d.mts": "export const lib: string",
+      "README.md": "# lib",
+    })
+
+    const added = addPackageFromTarball(fsMap, tarball)
+
+    expect(added).toEqual({ name: "@scope/lib", version: "1.2.3", path: "/node_modules/@scope/lib" })
+    expect(Array.from(fsMap.keys())).toEqual([
+      "/node_modules/@scope/lib/package.json",
+      "/node_modules/@scope/lib/index.d.ts",
+      "/node_modules/@scope/lib/esm/index.d.mts",
+    ])
+  })
+
+  it("follows the types conditions in exports", () => {
+    const fsMap = createDefaultMapFromNodeModules({})
+    addPackageFromTarball(
+      fsMap,
+      pack({
+        "package.json": packageJSON("conditions", "1.0.0", {
+          exports: {
+            ".": { types: "./types/index.d.ts", default: "./index.js" },
+            "./utils": { types: "./types/utils.d.ts", default: "./utils.js" },
+          },
+        }),
+        "index.d.ts": "export const value: boolean",
+        "types/index.d.ts": "export const value: number",
+        "types/utils.d.ts": "export const util: string",
+      })
+    )
+
+    const code =
+      "import { value } from 'conditions'\nimport { util } from 'conditions/utils'\nexport const a: number = value, b: string = util"
+    expect(
+      getErrors(fsMap, code, { module: ts.ModuleKind.Node16, moduleResolution: ts.ModuleResolutionKind.Node16 })
+    ).toEqual([])
+  })
+
+  it("follows typesVersions", () => {
+    const fsMap = createDefaultMapFromNodeModules({})
+    addPackageFromTarball(
+      fsMap,
+      pack({
+        "package.json": packageJSON("versioned", "1.0.0", {
+          types: "index.d.ts",
+          typesVersions: { "*": { "*": ["ts4/*"] } },
+        }),
+        "index.d.ts": "export const value: boolean",
+        "ts4/index.d.ts": "export const value: number",
+      })
+    )
+
+    expect(getErrors(fsMap, "import { value } from 'versioned'\nexport const a: number = value")).toEqual([])
+  })
+})
+
+describe(addPackagesFromLockfile, () => {
+  const createTarballs = () => {
+    const directory = mkdtempSync(join(tmpdir(), "vfs-tarballs-"))
+    writeFileSync(
+      join(directory, "a-1.0.0.tgz"),
+      pack({ "package.json": packageJSON("a", "1.0.0"), "index.d.ts": "export const a: 1" })
+    )
+    writeFileSync(
+      join(directory, "b-2.0.0.tgz"),
+      pack({ "package.json": packageJSON("b", "2.0.0"), "index.d.ts": "export const b: 2" })
+    )
+    writeFileSync(
+      join(directory, "b-1.0.0.tgz"),
+      pack({ "package.json": packageJSON("b", "1.0.0"), "index.d.ts": "export const b: 1" })
+    )
+    writeFileSync(
+      join(directory, "types-c-3.0.0.tgz"),
+      pack({ "package.json": packageJSON("@types/c", "3.0.0"), "index.d.ts": "export const c: 3" })
+    )
+    return directory
+  }
+
+  it("lays out the packages from a v2 lockfile", () => {
+    const lockfile = {
+      lockfileVersion: 2,
+      packages: {
+        "": { name: "project", dependencies: { a: "^1.0.0" } },
+        "node_modules/a": { version: "1.0.0" },
+        "node_modules/a/node_modules/b": { version: "1.0.0" },
+        "node_modules/b": { version: "2.0.0", resolved: "https://registry.npmjs.org/b/-/b-2.0.0.tgz" },
+        "node_modules/@types/c": { version: "3.0.0", resolved: "https://registry.npmjs.org/@types/c/-/c-3.0.0.tgz" },
+        "node_modules/local": { resolved: "packages/local", link: true },
+      },
+    }
+
+    const fsMap = new Map<string, string>()
+    const added = addPackagesFromLockfile(fsMap, JSON.stringify(lockfile), createTarballs())
+
+    expect(added.map(pkg => pkg.path)).toEqual([
+      "/node_modules/a",
+      "/node_modules/a/node_modules/b",
+      "/node_modules/b",
+      "/node_modules/@types/c",
+    ])
+    expect(fsMap.get("/node_modules/a/node_modules/b/index.d.ts")).toEqual("export const b: 1")
+    expect(fsMap.get("/node_modules/b/index.d.ts")).toEqual("export const b: 2")
+  })
+
+  it("lays out the packages from a v1 lockfile", () => {
+    const lockfile = {
+      lockfileVersion: 1,
+      dependencies: {
+        a: { version: "1.0.0", dependencies: { b: { version: "1.0.0" } } },
+        b: { version: "2.0.0" },
+      },
+    }
+
+    const fsMap = new Map<string, string>()
+    addPackagesFromLockfile(fsMap, JSON.stringify(lockfile), createTarballs())
+
+    expect(fsMap.get("/node_modules/a/node_modules/b/package.json")).toContain(`"version":"1.0.0"`)
+    expect(fsMap.get("/node_modules/b/package.json")).toContain(`"version":"2.0.0"`)
+  })
+
+  it("raises when a tarball is missing", () => {
+    const lockfile = { lockfileVersion: 2, packages: { "node_modules/d": { version: "1.0.0" } } }
+    expect(() => addPackagesFromLockfile(new Map(), JSON.stringify(lockfile), createTarballs())).toThrow(
+      "Could not find a tarball for d@1.0.0"
+    )
+  })
+
+  it("lists every missing tarball together", () => {
+    const lockfile = {
+      lockfileVersion: 2,
+      packages: {
+        "node_modules/a": { version: "1.0.0" },
+        "node_modules/d": { version: "1.0.0" },
+        "node_modules/e": { version: "2.0.0" },
+      },
+    }
+
+    const fsMap = new Map<string, string>()
+    expect(() => addPackagesFromLockfile(fsMap, JSON.stringify(lockfile), createTarballs())).toThrow(
+      "Could not find a tarball for d@1.0.0, e@2.0.0"
+    )
+    expect(fsMap.size).toEqual(0)
+  })
+
+  it("skips optional packages and links without a tarball", () => {
+    const v2 = {
+      lockfileVersion: 2,
+      packages: {
+        "node_modules/a": { version: "1.0.0" },
+        "node_modules/fsevents": { version: "2.3.2", optional: true },
+      },
+    }
+    const v1 = {
+      lockfileVersion: 1,
+      dependencies: {
+        a: { version: "1.0.0" },
+        fsevents: { version: "2.3.2", optional: true },
+        local: { version: "file:packages/local" },
+      },
+    }
+
+    const added = addPackagesFromLockfile(new Map(), JSON.stringify(v2), createTarballs())
+    expect(added.map(pkg => pkg.path)).toEqual(["/node_modules/a"])
+    expect(addPackagesFromLockfile(new Map(), JSON.stringify(v1), createTarballs())).toEqual(added)
+  })
+})
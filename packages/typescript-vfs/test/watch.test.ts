@@ -0,0 +1,144 @@
+import { createSystem, createDefaultMapFromNodeModules, createVirtualWatchProgram, VirtualWatchEvent } from "../src"
+import ts from "typescript"
+
+const createProject = () => {
+  const fsMap = createDefaultMapFromNodeModules({ target: ts.ScriptTarget.ES2019 })
+  fsMap.set("/project/src/math.ts", "export const add = (a: number, b: number) => a + b")
+  fsMap.set("/project/src/index.ts", "import { add } from './math'\nexport const total = add(1, 2)")
+  fsMap.set("/project/src/other.ts", "export const other = 1")
+  return fsMap
+}
+
+const compilerOptions = { outDir: "/project/dist", rootDir: "/project/src", module: ts.ModuleKind.CommonJS }
+const rootFiles = ["/project/src/index.ts", "/project/src/math.ts", "/project/src/other.ts"]
+
+describe("watch programs", () => {
+  it("builds the program when it is created", () => {
+    const fsMap = createProject()
+    const watch = createVirtualWatchProgram(createSystem(fsMap), rootFiles, compilerOptions, ts)
+
+    expect(watch.getDiagnostics()).toEqual([])
+    expect(fsMap.get("/project/dist/index.js")).toContain("(0, math_1.add)(1, 2)")
+    watch.close()
+  })
+
+  it("only re-emits the files affected by a change", async () => {
+    const fsMap = createProject()
+    const system = createSystem(fsMap)
+    const watch = createVirtualWatchProgram(system, rootFiles, compilerOptions, ts)
+
+    const events: VirtualWatchEvent[] = []
+    watch.addListener(event => events.push(event))
+
+    system.writeFile("/project/src/math.ts", "export const add = (a: number, b: number) => a * b")
+    await Promise.resolve()
+
+    expect(events.map(e => e.kind)).toEqual(["program", "emit"])
+    const emitted = events[1].kind === "emit" ? events[1].files : []
+    expect(emitted).toContain("/project/dist/math.js")
+    expect(emitted).not.toContain("/project/dist/other.js")
+    expect(fsMap.get("/project/dist/math.js")).toContain("a * b")
+    watch.close()
+  })
+
+  it("sends the diagnostics when they change", () => {
+    const system = createSystem(createProject())
+    const watch = createVirtualWatchProgram(system, rootFiles, compilerOptions, ts)
+
+    const diagnostics: ts.Diagnostic[][] = []
+    watch.addListener(event => event.kind === "diagnostics" && diagnostics.push(event.diagnostics))
+
+    system.writeFile("/project/src/math.ts", "export const add = (a: number, b: number): string => a + b")
+    watch.flush()
+    expect(diagnostics.length).toEqual(1)
+    expect(diagnostics[0].map(d => d.code)).toEqual([2322])
+
+    // A change which doesn't affect the errors doesn't send them again
+    system.writeFile("/project/src/other.ts", "export const other = 2")
+    watch.flush()
+    expect(diagnostics.length).toEqual(1)
+
+    system.writeFile("/project/src/math.ts", "export const add = (a: number, b: number) => a + b")
+    watch.flush()
+    expect(diagnostics.length).toEqual(2)
+    expect(watch.getDiagnostics()).toEqual([])
+    watch.close()
+  })
+
+  it("batches changes made together into one program", async () => {
+    const system = createSystem(createProject())
+    const watch = createVirtualWatchProgram(system, rootFiles, compilerOptions, ts)
+
+    let programs = 0
+    watch.addListener(event => event.kind === "program" && programs++)
+
+    system.writeFile("/project/src/math.ts", "export const add = (a: number, b: number) => a - b")
+    system.writeFile("/project/src/other.ts", "export const other = 3")
+    await Promise.resolve()
+
+    expect(programs).toEqual(1)
+    watch.close()
+  })
+
+  it("sends errors from programs made on the next tick", async () => {
+    const system = createSystem(createProject())
+    const watch = createVirtualWatchProgram(system, rootFiles, compilerOptions, ts)
+
+    const errors: unknown[] = []
+    watch.addListener(event => event.kind === "error" && errors.push(event.error))
+    watch.addListener(event => {
+      if (event.kind === "program") throw new Error("Listener failed")
+    })
+
+    system.writeFile("/project/src/other.ts", "export const other = 4")
+    await new Promise(resolve => setTimeout(resolve, 0))
+
+    expect(errors).toEqual([new Error("Listener failed")])
+    watch.close()
+  })
+
+  it("notices new files which are imported", () => {
+    const system = createSystem(createProject())
+    const watch = createVirtualWatchProgram(system, ["/project/src/app.ts"], compilerOptions, ts)
+    system.writeFile("/project/src/app.ts", "import { value } from './later'")
+    watch.flush()
+    expect(watch.getDiagnostics().map(d => d.code)).toEqual([2307])
+
+    system.writeFile("/project/src/later.ts", "export const value = 1")
+    watch.flush()
+    expect(watch.getDiagnostics()).toEqual([])
+    watch.close()
+  })
+})
+
+describe("watching the system", () => {
+  it("tells file and directory watchers about changes", () => {
+    const system = createSystem(new Map([["/src/a.ts", ""]]))
+    const fileEvents: { fileName: string; kind: ts.FileWatcherEventKind }[] = []
+    const directoryEvents: string[] = []
+
+    const fileWatcher = system.watchFile!("/src/a.ts", (fileName, kind) => fileEvents.push({ fileName, kind }))
+    system.watchDirectory!("/src", fileName => directoryEvents.push(fileName), false)
+    system.watchDirectory!("/", fileName => directoryEvents.push("recursive:" + fileName), true)
+
+    system.writeFile("/src/a.ts", "1")
+    system.writeFile("/src/deep/b.ts", "")
+    system.deleteFile!("/src/a.ts")
+    fileWatcher.close()
+    system.writeFile("/src/a.ts", "")
+
+    expect(fileEvents).toEqual([
+      { fileName: "/src/a.ts", kind: ts.FileWatcherEventKind.Changed },
+      { fileName: "/src/a.ts", kind: ts.FileWatcherEventKind.Deleted },
+    ])
+    expect(directoryEvents).toEqual([
+      "/src/a.ts",
+      "recursive:/src/a.ts",
+      "recursive:/src/deep/b.ts",
+      "/src/a.ts",
+      "recursive:/src/a.ts",
+      "/src/a.ts",
+      "recursive:/src/a.ts",
+    ])
+  })
+})
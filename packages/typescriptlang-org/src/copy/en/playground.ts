@@ -8,6 +8,10 @@ export const playCopy = {
   play_subnav_whatsnew: "What's New",
   play_subnav_settings: "Settings",
   play_settings_tabs_settings: "Sidebar Tabs",
+  play_settings_ata_cache: "Type Acquisition Cache",
+  play_settings_ata_cache_copy: "The types which are downloaded for your imports are kept between visits.",
+  play_settings_ata_cache_empty: "There are no types in the cache.",
+  play_settings_ata_cache_clear: "Clear the cache",
   play_downloading_typescript: "Downloading TypeScript...", // when loading
   play_downloading_version: "Version...", // when loading
   play_toolbar_run: "Run",